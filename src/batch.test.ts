@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test";
+import {
+  assignSlugs,
+  mapWithConcurrency,
+  normalizeUrl,
+  parseUrlList,
+  slugifyUrl,
+} from "./batch";
+
+const HASH_SUFFIX_RE = /-[0-9a-f]{8}$/;
+
+describe("slugifyUrl", () => {
+  it("builds a slug from host and path", () => {
+    expect(slugifyUrl("https://example.com/docs/Getting-Started")).toBe(
+      "example-com-docs-getting-started"
+    );
+  });
+
+  it("omits the root path", () => {
+    expect(slugifyUrl("https://example.com/")).toBe("example-com");
+  });
+
+  it("is deterministic", () => {
+    const url = "https://example.com/search?q=markdown";
+    expect(slugifyUrl(url)).toBe(slugifyUrl(url));
+  });
+
+  it("adds a hash suffix when a query string is present", () => {
+    const a = slugifyUrl("https://example.com/search?q=a");
+    const b = slugifyUrl("https://example.com/search?q=b");
+    expect(a).toMatch(HASH_SUFFIX_RE);
+    expect(a).not.toBe(b);
+  });
+
+  it("truncates long slugs and adds a hash suffix", () => {
+    const slug = slugifyUrl(`https://example.com/${"a".repeat(300)}`);
+    expect(slug.length).toBeLessThanOrEqual(109);
+    expect(slug).toMatch(HASH_SUFFIX_RE);
+  });
+});
+
+describe("assignSlugs", () => {
+  it("disambiguates colliding slugs", () => {
+    const slugs = assignSlugs([
+      "https://example.com/a-b",
+      "https://example.com/a/b",
+    ]);
+    expect(slugs.get("https://example.com/a-b")).toBe("example-com-a-b");
+    expect(slugs.get("https://example.com/a/b")).toMatch(HASH_SUFFIX_RE);
+  });
+});
+
+describe("parseUrlList", () => {
+  it("skips blank lines and comments", () => {
+    const content = "# docs\nhttps://a.com\n\n  https://b.com  \n# end\n";
+    expect(parseUrlList(content)).toEqual(["https://a.com", "https://b.com"]);
+  });
+});
+
+describe("normalizeUrl", () => {
+  it("adds https:// to bare hosts", () => {
+    expect(normalizeUrl("example.com")).toBe("https://example.com");
+    expect(normalizeUrl("http://example.com")).toBe("http://example.com");
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("never exceeds the concurrency limit and preserves order", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency(
+      [1, 2, 3, 4, 5],
+      2,
+      async (item) => {
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+        return item * 2;
+      }
+    );
+    expect(maxInFlight).toBe(2);
+    expect(
+      results.map((r) => (r.status === "fulfilled" ? r.value : null))
+    ).toEqual([2, 4, 6, 8, 10]);
+  });
+
+  it("captures failures without stopping other tasks", async () => {
+    const results = await mapWithConcurrency([1, 2, 3], 3, (item) => {
+      if (item === 2) {
+        return Promise.reject(new Error("boom"));
+      }
+      return Promise.resolve(item);
+    });
+    expect(results.map((r) => r.status)).toEqual([
+      "fulfilled",
+      "rejected",
+      "fulfilled",
+    ]);
+  });
+});
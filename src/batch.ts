@@ -0,0 +1,144 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { readStdin, resolveLocalInput } from "./local";
+
+const MAX_SLUG_LENGTH = 100;
+const NON_SLUG_CHARS_RE = /[^a-z0-9]+/g;
+const EDGE_DASHES_RE = /^-+|-+$/g;
+const COMMENT_LINE_RE = /^\s*#/;
+
+/**
+ * Normalizes a user-supplied URL, defaulting to https:// when no scheme is given.
+ */
+export function normalizeUrl(url: string): string {
+  if (url.startsWith("http://") || url.startsWith("https://")) {
+    return url;
+  }
+  return `https://${url}`;
+}
+
+function shortHash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 8);
+}
+
+/**
+ * Builds a deterministic, filesystem-safe slug from a URL's host, path and query.
+ * Query strings and overly long slugs get a short hash suffix so that distinct
+ * URLs never share a slug by truncation alone.
+ */
+export function slugifyUrl(url: string): string {
+  let host = url;
+  let path = "";
+  let search = "";
+  try {
+    const parsed = new URL(url);
+    host = parsed.host;
+    path = parsed.pathname;
+    search = parsed.search;
+  } catch {
+    // Not a parseable URL; slugify the raw string
+  }
+
+  const base = `${host}${path === "/" ? "" : path}`
+    .toLowerCase()
+    .replace(NON_SLUG_CHARS_RE, "-")
+    .replace(EDGE_DASHES_RE, "");
+
+  if (!search && base.length > 0 && base.length <= MAX_SLUG_LENGTH) {
+    return base;
+  }
+
+  const truncated = base.slice(0, MAX_SLUG_LENGTH).replace(EDGE_DASHES_RE, "");
+  const hash = shortHash(url);
+  return truncated ? `${truncated}-${hash}` : hash;
+}
+
+/**
+ * Assigns a unique slug to every URL. A later URL whose slug collides with an
+ * earlier one is disambiguated with a hash of its full URL.
+ */
+export function assignSlugs(urls: string[]): Map<string, string> {
+  const slugs = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const url of urls) {
+    let slug = slugifyUrl(url);
+    if (taken.has(slug)) {
+      slug = `${slug}-${shortHash(url)}`;
+    }
+    taken.add(slug);
+    slugs.set(url, slug);
+  }
+  return slugs;
+}
+
+/**
+ * Parses a newline-separated URL list. Blank lines and `#` comments are ignored.
+ */
+export function parseUrlList(content: string): string[] {
+  return content
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !COMMENT_LINE_RE.test(line));
+}
+
+/**
+ * Collects inputs from positional arguments and an optional input file
+ * (`-` reads from stdin). Web URLs are normalized; `-`, `file://` URLs and
+ * existing local paths are kept as given. Duplicates are dropped, preserving
+ * first occurrence.
+ */
+export async function collectUrls(
+  args: string[],
+  inputPath?: string
+): Promise<string[]> {
+  const urls = [...args];
+  if (inputPath) {
+    let content: string;
+    try {
+      content =
+        inputPath === "-"
+          ? (await readStdin()).toString("utf8")
+          : await readFile(inputPath, "utf8");
+    } catch (error) {
+      throw new Error(
+        `Unable to read URL list "${inputPath}": ${String(error)}`,
+        { cause: error }
+      );
+    }
+    urls.push(...parseUrlList(content));
+  }
+  const normalized = urls.map((url) =>
+    url === "-" || resolveLocalInput(url) ? url : normalizeUrl(url)
+  );
+  return [...new Set(normalized)];
+}
+
+/**
+ * Runs `task` over every item with at most `limit` tasks in flight.
+ * Results are returned in input order; rejections are captured per item.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      try {
+        const value = await task(items[index] as T, index);
+        results[index] = { status: "fulfilled", value };
+      } catch (reason) {
+        results[index] = { reason, status: "rejected" };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,195 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { BrowserContext, Route } from "playwright";
+import {
+  type BlockingStats,
+  blockReason,
+  blockRequests,
+  DEFAULT_BLOCKLIST,
+  describeBlocking,
+  loadBlocklist,
+  parseBlocklist,
+} from "./blocking";
+
+const tempDir = mkdtempSync(join(tmpdir(), "into-md-blocking-"));
+
+afterAll(() => {
+  rmSync(tempDir, { force: true, recursive: true });
+});
+
+interface FakeRequest {
+  url: string;
+  type: string;
+  navigation?: boolean;
+  subframe?: boolean;
+}
+
+const DEFAULT_RULES = { hosts: DEFAULT_BLOCKLIST, resourceTypes: true };
+
+/** Routes each request through the blocker and records what happened */
+async function route(requests: FakeRequest[], rules = DEFAULT_RULES) {
+  let handler: ((route: Route) => unknown) | undefined;
+  const context = {
+    route: (_pattern: string, routeHandler: (route: Route) => unknown) => {
+      handler = routeHandler;
+      return Promise.resolve();
+    },
+  };
+  const stats = await blockRequests(
+    context as unknown as BrowserContext,
+    rules
+  );
+  const outcomes: string[] = [];
+  for (const request of requests) {
+    const fake = {
+      abort: () => outcomes.push(`abort ${request.url}`),
+      fallback: () => outcomes.push(`allow ${request.url}`),
+      request: () => ({
+        frame: () => ({ parentFrame: () => (request.subframe ? {} : null) }),
+        isNavigationRequest: () => Boolean(request.navigation),
+        resourceType: () => request.type,
+        url: () => request.url,
+      }),
+    };
+    await handler?.(fake as unknown as Route);
+  }
+  return { outcomes, stats };
+}
+
+describe("blockReason", () => {
+  it("blocks images, media and fonts by type", () => {
+    const rules = { hosts: new Set<string>(), resourceTypes: true };
+    expect(blockReason("image", "https://example.com/a.png", rules)).toBe(
+      "image"
+    );
+    expect(blockReason("font", "https://example.com/a.woff2", rules)).toBe(
+      "font"
+    );
+    expect(blockReason("media", "https://example.com/a.mp4", rules)).toBe(
+      "media"
+    );
+    expect(
+      blockReason("script", "https://example.com/app.js", rules)
+    ).toBeUndefined();
+    expect(
+      blockReason("stylesheet", "https://example.com/a.css", rules)
+    ).toBeUndefined();
+  });
+
+  it("blocks listed hosts and their subdomains", () => {
+    const url = (host: string) => `https://${host}/script.js`;
+    expect(
+      blockReason("script", url("www.google-analytics.com"), DEFAULT_RULES)
+    ).toBe("tracker");
+    expect(
+      blockReason("xhr", url("stats.g.doubleclick.net"), DEFAULT_RULES)
+    ).toBe("tracker");
+    expect(
+      blockReason("script", url("notdoubleclick.net"), DEFAULT_RULES)
+    ).toBeUndefined();
+    expect(
+      blockReason("script", url("linkedin.com"), DEFAULT_RULES)
+    ).toBeUndefined();
+  });
+});
+
+describe("parseBlocklist", () => {
+  it("reads plain and hosts-file lines, skipping comments", () => {
+    expect(
+      parseBlocklist(
+        [
+          "# Trackers",
+          "Tracker.example.com",
+          "0.0.0.0 ads.example.net # inline",
+          "",
+          "127.0.0.1\tpixel.example.org",
+        ].join("\n")
+      )
+    ).toEqual(["tracker.example.com", "ads.example.net", "pixel.example.org"]);
+  });
+});
+
+describe("loadBlocklist", () => {
+  it("replaces the bundled list", () => {
+    const path = join(tempDir, "hosts.txt");
+    writeFileSync(path, "cdn.example.com\n");
+    const hosts = loadBlocklist(path);
+    const rules = { hosts, resourceTypes: true };
+    expect([...hosts]).toEqual(["cdn.example.com"]);
+    expect(blockReason("script", "https://cdn.example.com/a.js", rules)).toBe(
+      "tracker"
+    );
+    expect(
+      blockReason("script", "https://www.google-analytics.com/a.js", rules)
+    ).toBeUndefined();
+  });
+
+  it("names the file it cannot read", () => {
+    expect(() => loadBlocklist(join(tempDir, "missing.txt"))).toThrow(
+      'Unable to read blocklist "missing.txt"'
+    );
+  });
+});
+
+describe("blockRequests", () => {
+  it("aborts blocked requests and lets the rest fall back", async () => {
+    const { outcomes, stats } = await route([
+      { navigation: true, type: "document", url: "https://example.com/" },
+      { type: "script", url: "https://example.com/app.js" },
+      { type: "image", url: "https://example.com/hero.jpg" },
+      { type: "script", url: "https://www.googletagmanager.com/gtm.js" },
+      {
+        navigation: true,
+        subframe: true,
+        type: "document",
+        url: "https://googleads.g.doubleclick.net/frame",
+      },
+    ]);
+    expect(outcomes).toEqual([
+      "allow https://example.com/",
+      "allow https://example.com/app.js",
+      "abort https://example.com/hero.jpg",
+      "abort https://www.googletagmanager.com/gtm.js",
+      "abort https://googleads.g.doubleclick.net/frame",
+    ]);
+    expect(describeBlocking(stats)).toBe(
+      "Blocked 3 requests (2 tracker, 1 image), allowed 2"
+    );
+  });
+
+  it("keeps images and fonts when resource types are let through", async () => {
+    const { outcomes } = await route(
+      [
+        { type: "image", url: "https://example.com/hero.jpg" },
+        { type: "font", url: "https://example.com/a.woff2" },
+        { type: "script", url: "https://www.googletagmanager.com/gtm.js" },
+      ],
+      { hosts: DEFAULT_BLOCKLIST, resourceTypes: false }
+    );
+    expect(outcomes).toEqual([
+      "allow https://example.com/hero.jpg",
+      "allow https://example.com/a.woff2",
+      "abort https://www.googletagmanager.com/gtm.js",
+    ]);
+  });
+
+  it("never blocks the page itself", async () => {
+    const { outcomes } = await route([
+      {
+        navigation: true,
+        type: "document",
+        url: "https://www.google-analytics.com/",
+      },
+    ]);
+    expect(outcomes).toEqual(["allow https://www.google-analytics.com/"]);
+  });
+});
+
+describe("describeBlocking", () => {
+  it("omits the breakdown when nothing was blocked", () => {
+    const stats: BlockingStats = { allowed: 4, blocked: new Map() };
+    expect(describeBlocking(stats)).toBe("Blocked 0 requests, allowed 4");
+  });
+});
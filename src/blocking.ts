@@ -0,0 +1,175 @@
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+import type { BrowserContext } from "playwright";
+
+const COMMENT_RE = /#.*$/;
+const WHITESPACE_RE = /\s+/;
+
+/** Resource types a page's text never depends on */
+const BLOCKED_RESOURCE_TYPES = new Set(["image", "media", "font"]);
+
+/** Analytics, tag manager and ad hosts; subdomains are blocked too */
+export const DEFAULT_BLOCKLIST: ReadonlySet<string> = new Set([
+  "2mdn.net",
+  "adnxs.com",
+  "adroll.com",
+  "ads-twitter.com",
+  "ads.linkedin.com",
+  "adsrvr.org",
+  "amazon-adsystem.com",
+  "amplitude.com",
+  "analytics.tiktok.com",
+  "bat.bing.com",
+  "chartbeat.com",
+  "chartbeat.net",
+  "clarity.ms",
+  "criteo.com",
+  "criteo.net",
+  "crwdcntrl.net",
+  "demdex.net",
+  "doubleclick.net",
+  "facebook.net",
+  "fullstory.com",
+  "google-analytics.com",
+  "googleadservices.com",
+  "googlesyndication.com",
+  "googletagmanager.com",
+  "googletagservices.com",
+  "heapanalytics.com",
+  "hotjar.com",
+  "hs-analytics.net",
+  "mc.yandex.ru",
+  "mixpanel.com",
+  "moatads.com",
+  "mouseflow.com",
+  "mxpnl.com",
+  "nr-data.net",
+  "omtrdc.net",
+  "outbrain.com",
+  "pubmatic.com",
+  "quantserve.com",
+  "rubiconproject.com",
+  "scorecardresearch.com",
+  "segment.com",
+  "segment.io",
+  "taboola.com",
+]);
+
+/** What to block besides the page itself */
+export interface BlockingRules {
+  /** Tracker hosts; subdomains are blocked too */
+  hosts: ReadonlySet<string>;
+  /** Also block images, media and fonts; off when the page is captured */
+  resourceTypes: boolean;
+}
+
+/** Requests aborted per reason (a resource type or `tracker`) and let through */
+export interface BlockingStats {
+  blocked: Map<string, number>;
+  allowed: number;
+}
+
+const loadedBlocklists = new Map<string, ReadonlySet<string>>();
+
+/**
+ * Reads hosts from a blocklist: one per line, `#` comments allowed. Lines in
+ * hosts-file form (`0.0.0.0 tracker.example`) use their last field, so common
+ * published lists work as they are.
+ */
+export function parseBlocklist(content: string): string[] {
+  const hosts: string[] = [];
+  for (const line of content.split("\n")) {
+    const fields = line.replace(COMMENT_RE, "").trim().split(WHITESPACE_RE);
+    const host = fields.at(-1)?.toLowerCase();
+    if (host) {
+      hosts.push(host);
+    }
+  }
+  return hosts;
+}
+
+/** Loads a blocklist file once per process; it replaces the bundled list */
+export function loadBlocklist(path: string): ReadonlySet<string> {
+  const loaded = loadedBlocklists.get(path);
+  if (loaded) {
+    return loaded;
+  }
+  let content: string;
+  try {
+    content = readFileSync(path, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Unable to read blocklist "${basename(path)}": ${String(error)}`,
+      { cause: error }
+    );
+  }
+  const hosts = new Set(parseBlocklist(content));
+  loadedBlocklists.set(path, hosts);
+  return hosts;
+}
+
+function isBlockedHost(hostname: string, hosts: ReadonlySet<string>): boolean {
+  const labels = hostname.toLowerCase().split(".");
+  for (let index = 0; index < labels.length; index += 1) {
+    if (hosts.has(labels.slice(index).join("."))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Why a request should be aborted, or undefined to let it through: its
+ * resource type (`image`, `media`, `font`) or `tracker` for a listed host.
+ */
+export function blockReason(
+  resourceType: string,
+  url: string,
+  { hosts, resourceTypes }: BlockingRules
+): string | undefined {
+  if (resourceTypes && BLOCKED_RESOURCE_TYPES.has(resourceType)) {
+    return resourceType;
+  }
+  let hostname: string;
+  try {
+    ({ hostname } = new URL(url));
+  } catch {
+    return;
+  }
+  return isBlockedHost(hostname, hosts) ? "tracker" : undefined;
+}
+
+/**
+ * Aborts blocked requests in every page of `context` and counts the rest.
+ * Allowed requests fall back to earlier routes, so register this last. The
+ * top-level navigation is never blocked.
+ */
+export async function blockRequests(
+  context: BrowserContext,
+  rules: BlockingRules
+): Promise<BlockingStats> {
+  const stats: BlockingStats = { allowed: 0, blocked: new Map() };
+  await context.route("**/*", (route) => {
+    const request = route.request();
+    const isPageNavigation =
+      request.isNavigationRequest() && !request.frame().parentFrame();
+    const reason = isPageNavigation
+      ? undefined
+      : blockReason(request.resourceType(), request.url(), rules);
+    if (!reason) {
+      stats.allowed += 1;
+      return route.fallback();
+    }
+    stats.blocked.set(reason, (stats.blocked.get(reason) ?? 0) + 1);
+    return route.abort("blockedbyclient");
+  });
+  return stats;
+}
+
+/** E.g. `Blocked 12 requests (9 image, 3 tracker), allowed 20` */
+export function describeBlocking(stats: BlockingStats): string {
+  const counts = [...stats.blocked].sort(([, a], [, b]) => b - a);
+  const total = counts.reduce((sum, [, count]) => sum + count, 0);
+  const detail = counts.map(([reason, count]) => `${count} ${reason}`);
+  return `Blocked ${total} requests${detail.length ? ` (${detail.join(", ")})` : ""}, allowed ${stats.allowed}`;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "bun:test";
+import type { Browser } from "playwright";
+import { createBrowserPool } from "./browser";
+
+function fakeBrowser() {
+  const onDisconnect: (() => void)[] = [];
+  const state = { closed: false, connected: true, contexts: 0 };
+  const disconnect = () => {
+    state.connected = false;
+    for (const listener of onDisconnect) {
+      listener();
+    }
+  };
+  const browser = {
+    close: () => {
+      state.closed = true;
+      disconnect();
+      return Promise.resolve();
+    },
+    isConnected: () => state.connected,
+    newContext: () => {
+      state.contexts += 1;
+      return Promise.resolve({ close: () => Promise.resolve() });
+    },
+    on: (_event: string, listener: () => void) => {
+      onDisconnect.push(listener);
+    },
+  };
+  return { browser: browser as unknown as Browser, crash: disconnect, state };
+}
+
+function testPool(options: { maxContexts?: number; pagesPerBrowser?: number }) {
+  const launched: ReturnType<typeof fakeBrowser>[] = [];
+  const pool = createBrowserPool({
+    launch: () => {
+      const fake = fakeBrowser();
+      launched.push(fake);
+      return Promise.resolve(fake.browser);
+    },
+    maxContexts: options.maxContexts ?? 4,
+    pagesPerBrowser: options.pagesPerBrowser ?? 100,
+  });
+  return { launched, pool };
+}
+
+const page = () => Promise.resolve("ok");
+
+describe("createBrowserPool", () => {
+  it("keeps one browser for every lease with keepAlive", async () => {
+    const { launched, pool } = testPool({});
+    for (let i = 0; i < 3; i += 1) {
+      await pool.withContext({}, page, { keepAlive: true });
+    }
+    expect(launched).toHaveLength(1);
+    expect(launched[0]?.state).toMatchObject({ closed: false, contexts: 3 });
+    await pool.close();
+    expect(launched[0]?.state.closed).toBe(true);
+  });
+
+  it("closes the browser once idle without keepAlive", async () => {
+    const { launched, pool } = testPool({});
+    await pool.withContext({}, page);
+    expect(launched[0]?.state.closed).toBe(true);
+    await pool.withContext({}, page);
+    expect(launched).toHaveLength(2);
+  });
+
+  it("bounds the contexts open at once", async () => {
+    const { launched, pool } = testPool({ maxContexts: 2 });
+    let open = 0;
+    let peak = 0;
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        pool.withContext({}, async () => {
+          open += 1;
+          peak = Math.max(peak, open);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          open -= 1;
+        })
+      )
+    );
+    expect(peak).toBe(2);
+    expect(launched).toHaveLength(1);
+  });
+
+  it("replaces the browser after pagesPerBrowser pages", async () => {
+    const { launched, pool } = testPool({ pagesPerBrowser: 2 });
+    const messages: string[] = [];
+    for (let i = 0; i < 3; i += 1) {
+      await pool.withContext({}, page, {
+        keepAlive: true,
+        log: (message) => messages.push(message),
+      });
+    }
+    expect(launched).toHaveLength(2);
+    expect(launched[0]?.state.closed).toBe(true);
+    expect(launched[1]?.state.closed).toBe(false);
+    expect(messages).toContain("Recycling browser after 2 pages");
+    await pool.close();
+  });
+
+  it("retries a task once in a new browser after a crash", async () => {
+    const { launched, pool } = testPool({});
+    let attempts = 0;
+    const result = await pool.withContext({}, () => {
+      attempts += 1;
+      if (attempts === 1) {
+        launched[0]?.crash();
+        return Promise.reject(new Error("Target closed"));
+      }
+      return page();
+    });
+    expect(result).toBe("ok");
+    expect(launched).toHaveLength(2);
+  });
+
+  it("passes other task errors through without retrying", async () => {
+    const { launched, pool } = testPool({});
+    await expect(
+      pool.withContext({}, () => Promise.reject(new Error("Navigation failed")))
+    ).rejects.toThrow("Navigation failed");
+    expect(launched).toHaveLength(1);
+  });
+});
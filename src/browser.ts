@@ -0,0 +1,295 @@
+import type {
+  Browser,
+  BrowserContext,
+  BrowserContextOptions,
+} from "playwright";
+import { createLimiter } from "./utils";
+
+const MISSING_BROWSER_RE = /Executable doesn't exist/;
+const INSTALL_HINT =
+  "Browser binaries not found. Run `bunx playwright install chromium`";
+
+/** Contexts open at once across all callers; further leases wait */
+const MAX_BROWSER_CONTEXTS = 4;
+/** Pages a browser serves before it is replaced, to bound memory growth */
+const PAGES_PER_BROWSER = 100;
+
+const SIGNAL_EXIT_CODES = [
+  ["SIGINT", 130],
+  ["SIGTERM", 143],
+] as const;
+
+interface PooledBrowser {
+  browser: Promise<Browser>;
+  /** Leases handed out, including those still open */
+  pages: number;
+  active: number;
+  /** No new leases; closed once the open ones finish */
+  retired: boolean;
+  /** Set once closing starts, so a disconnect is expected */
+  closed?: Promise<void>;
+  /** Disconnected without being closed */
+  crashed: boolean;
+  /** Stays open when idle, for callers that set `keepAlive` */
+  keepAlive: boolean;
+}
+
+export interface BrowserLeaseOptions {
+  /** Keep the browser running once idle instead of closing it */
+  keepAlive?: boolean;
+  /** Receives progress messages, e.g. for `--verbose` */
+  log?: (message: string) => void;
+}
+
+export interface BrowserPoolOptions {
+  launch: () => Promise<Browser>;
+  maxContexts: number;
+  pagesPerBrowser: number;
+}
+
+export interface BrowserPool {
+  /**
+   * Runs `task` in a fresh, isolated context of the shared browser. The
+   * browser launches on first use, is replaced after `pagesPerBrowser`
+   * pages and closes when idle unless `keepAlive` is set. A task cut short
+   * by a browser crash runs once more in a relaunched browser.
+   */
+  withContext<T>(
+    contextOptions: BrowserContextOptions,
+    task: (context: BrowserContext) => Promise<T>,
+    options?: BrowserLeaseOptions
+  ): Promise<T>;
+  /** Closes the browser, and any retired ones still shutting down */
+  close(): Promise<void>;
+}
+
+let signalsHooked = false;
+
+async function loadPlaywright(): Promise<typeof import("playwright")> {
+  try {
+    return await import("playwright");
+  } catch (error) {
+    throw new Error(
+      `JS mode requested but playwright is not installed. Install it and retry. (${String(
+        error
+      )})`,
+      { cause: error }
+    );
+  }
+}
+
+/** Offers to install Chromium on an interactive terminal; throws otherwise */
+async function installBrowser(cause: unknown): Promise<void> {
+  if (!process.stdin.isTTY || process.env.CI) {
+    throw new Error(INSTALL_HINT, { cause });
+  }
+  const readline = await import("node:readline");
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+  });
+  const answer = await new Promise<string>((resolve) => {
+    rl.question(`${INSTALL_HINT}? (y/n) `, resolve);
+  });
+  rl.close();
+  if (answer.toLowerCase() !== "y") {
+    throw new Error(INSTALL_HINT, { cause });
+  }
+  console.error("Installing chromium...");
+  const { $ } = await import("bun");
+  await $`bunx playwright install chromium`;
+}
+
+/**
+ * Launches Chromium. Missing binaries are detected here rather than by a
+ * separate probe launch, and can be installed before a second attempt.
+ */
+async function launchBrowser(): Promise<Browser> {
+  const { chromium } = await loadPlaywright();
+  // Signals are handled in `hookSignals` so the browser closes gracefully
+  const launch = () =>
+    chromium.launch({
+      handleSIGHUP: false,
+      handleSIGINT: false,
+      handleSIGTERM: false,
+      headless: true,
+    });
+  try {
+    return await launch();
+  } catch (error) {
+    if (!MISSING_BROWSER_RE.test(String(error))) {
+      throw new Error(`Failed to launch the browser: ${String(error)}`, {
+        cause: error,
+      });
+    }
+    await installBrowser(error);
+    return launch();
+  }
+}
+
+/**
+ * Hands out browser contexts from one lazily launched browser, with at most
+ * `maxContexts` open at once; further leases wait for a free slot.
+ */
+export function createBrowserPool(options: BrowserPoolOptions): BrowserPool {
+  let current: PooledBrowser | null = null;
+  const closing = new Set<Promise<void>>();
+  const limitContexts = createLimiter(options.maxContexts);
+
+  const retire = (pooled: PooledBrowser) => {
+    pooled.retired = true;
+    if (current === pooled) {
+      current = null;
+    }
+  };
+
+  const closePooled = (pooled: PooledBrowser): Promise<void> => {
+    retire(pooled);
+    if (pooled.closed) {
+      return pooled.closed;
+    }
+    const done = pooled.browser
+      .then((browser) => browser.close())
+      .catch(() => {
+        // Launch failed or the browser is already gone
+      })
+      .finally(() => closing.delete(done));
+    closing.add(done);
+    pooled.closed = done;
+    return done;
+  };
+
+  const launch = (lease: BrowserLeaseOptions): PooledBrowser => {
+    lease.log?.("Launching browser");
+    const pooled: PooledBrowser = {
+      active: 0,
+      browser: options.launch(),
+      crashed: false,
+      keepAlive: false,
+      pages: 0,
+      retired: false,
+    };
+    pooled.browser.then(
+      (browser) =>
+        browser.on("disconnected", () => {
+          pooled.crashed ||= !pooled.closed;
+          retire(pooled);
+        }),
+      () => retire(pooled)
+    );
+    return pooled;
+  };
+
+  const acquire = (lease: BrowserLeaseOptions): PooledBrowser => {
+    current ??= launch(lease);
+    const pooled = current;
+    pooled.active += 1;
+    pooled.pages += 1;
+    pooled.keepAlive ||= Boolean(lease.keepAlive);
+    if (pooled.pages >= options.pagesPerBrowser) {
+      lease.log?.(`Recycling browser after ${pooled.pages} pages`);
+      retire(pooled);
+    }
+    return pooled;
+  };
+
+  const release = async (pooled: PooledBrowser) => {
+    pooled.active -= 1;
+    if (pooled.active === 0 && (pooled.retired || !pooled.keepAlive)) {
+      await closePooled(pooled);
+    }
+  };
+
+  const runInContext = async <T>(
+    pooled: PooledBrowser,
+    contextOptions: BrowserContextOptions,
+    task: (context: BrowserContext) => Promise<T>
+  ): Promise<T> => {
+    let context: BrowserContext | undefined;
+    try {
+      const browser = await pooled.browser;
+      context = await browser.newContext(contextOptions);
+      return await task(context);
+    } finally {
+      await context?.close().catch(() => {
+        // The browser may have gone away with the context
+      });
+      await release(pooled);
+    }
+  };
+
+  return {
+    withContext: (contextOptions, task, lease = {}) =>
+      limitContexts(async () => {
+        const pooled = acquire(lease);
+        try {
+          return await runInContext(pooled, contextOptions, task);
+        } catch (error) {
+          if (!pooled.crashed) {
+            throw error;
+          }
+          lease.log?.("Browser crashed, retrying in a new browser");
+          return runInContext(acquire(lease), contextOptions, task);
+        }
+      }),
+    close: async () => {
+      if (current) {
+        closePooled(current);
+      }
+      await Promise.all(closing);
+    },
+  };
+}
+
+const sharedPool = createBrowserPool({
+  launch: () => {
+    hookSignals();
+    return launchBrowser();
+  },
+  maxContexts: MAX_BROWSER_CONTEXTS,
+  pagesPerBrowser: PAGES_PER_BROWSER,
+});
+
+/**
+ * Closes the shared browser on SIGINT and SIGTERM, then exits unless another
+ * handler (such as the HTTP or MCP server's) takes care of that. Registered
+ * first so that check sees every other listener. On a plain exit, Playwright
+ * kills the browser process itself.
+ */
+function hookSignals(): void {
+  if (signalsHooked) {
+    return;
+  }
+  signalsHooked = true;
+  for (const [signal, code] of SIGNAL_EXIT_CODES) {
+    process.prependListener(signal, () => {
+      const handledElsewhere = process.listenerCount(signal) > 1;
+      sharedPool.close().finally(() => {
+        if (!handledElsewhere) {
+          process.exit(code);
+        }
+      });
+    });
+  }
+}
+
+/**
+ * Runs `task` in a context of the process-wide browser; see `BrowserPool`.
+ * At most four contexts are open at once and the browser is replaced every
+ * hundred pages.
+ */
+export function withBrowserContext<T>(
+  contextOptions: BrowserContextOptions,
+  task: (context: BrowserContext) => Promise<T>,
+  options: BrowserLeaseOptions = {}
+): Promise<T> {
+  return sharedPool.withContext(contextOptions, task, options);
+}
+
+/**
+ * Closes the process-wide browser, if one is running. Safe to call
+ * repeatedly; a later fetch launches a new browser.
+ */
+export function closeBrowser(): Promise<void> {
+  return sharedPool.close();
+}
@@ -0,0 +1,246 @@
+import { Command } from "commander";
+import { normalizeUrl } from "./batch";
+import {
+  type CacheEntrySummary,
+  defaultCacheDir,
+  type ExtractionOptions,
+  listCacheEntries,
+  readCacheEntries,
+  removeCacheEntries,
+} from "./cache";
+import { formatBytes, parseDuration } from "./utils";
+
+const DEFAULT_TTL = "1h";
+
+interface CacheCommandOptions {
+  ttl: string;
+  json?: boolean;
+}
+
+function formatAge(timestamp: number): string {
+  const seconds = Math.max(0, Math.round((Date.now() - timestamp) / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m`;
+  }
+  if (seconds < 86_400) {
+    return `${Math.floor(seconds / 3600)}h`;
+  }
+  return `${Math.floor(seconds / 86_400)}d`;
+}
+
+/** Renders extraction options the way they were given on the command line */
+function describeExtraction(extraction?: ExtractionOptions): string {
+  if (!extraction) {
+    return "";
+  }
+  const flags: string[] = [];
+  if (extraction.raw) {
+    flags.push("--raw");
+  }
+  if (extraction.stripLinks) {
+    flags.push("--strip-links");
+  }
+  if (extraction.excludeSelectors?.length) {
+    flags.push(`--exclude "${extraction.excludeSelectors.join(",")}"`);
+  }
+  if (extraction.encoding) {
+    flags.push(`--encoding ${extraction.encoding}`);
+  }
+  return flags.join(" ");
+}
+
+function requireDuration(flag: string, value: string): number {
+  const ms = parseDuration(value);
+  if (ms === undefined) {
+    throw new Error(
+      `Invalid ${flag} duration: ${value} (use e.g. 30m, 12h, 7d or 2w)`
+    );
+  }
+  return ms;
+}
+
+function listEntries(options: CacheCommandOptions) {
+  return listCacheEntries({ ttlMs: requireDuration("--ttl", options.ttl) });
+}
+
+function formatEntryLine(entry: CacheEntrySummary): string {
+  const columns = [
+    formatAge(entry.modifiedAt).padStart(4),
+    formatBytes(entry.sizeBytes).padStart(8),
+    entry.fresh ? "fresh" : "stale",
+    entry.url ?? `(unreadable: ${entry.path})`,
+  ];
+  const flags = describeExtraction(entry.extraction);
+  return flags ? `${columns.join("  ")}  ${flags}` : columns.join("  ");
+}
+
+async function runList(options: CacheCommandOptions) {
+  const entries = await listEntries(options);
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+  if (entries.length === 0) {
+    console.error(`Cache is empty (${defaultCacheDir})`);
+    return;
+  }
+  for (const entry of entries) {
+    console.log(formatEntryLine(entry));
+  }
+}
+
+async function runShow(url: string, options: CacheCommandOptions) {
+  const entries = await readCacheEntries(normalizeUrl(url));
+  if (entries.length === 0) {
+    throw new Error(`No cache entry for ${normalizeUrl(url)}`);
+  }
+  if (options.json) {
+    console.log(JSON.stringify(entries, null, 2));
+    return;
+  }
+  for (const [index, entry] of entries.entries()) {
+    const flags = describeExtraction(entry.extraction);
+    console.error(
+      [
+        `Entry ${index + 1}/${entries.length}: ${entry.path}`,
+        `  Fetched: ${new Date(entry.fetchedAt).toISOString()} (${formatAge(entry.fetchedAt)} ago)`,
+        `  Final URL: ${entry.finalUrl}`,
+        ...(flags ? [`  Options: ${flags}`] : []),
+      ].join("\n")
+    );
+    console.log(entry.markdown);
+  }
+}
+
+async function runPrune(olderThan: string | undefined, ttl: string) {
+  const olderThanMs = requireDuration(
+    olderThan ? "--older-than" : "--ttl",
+    olderThan ?? ttl
+  );
+  const { removed, bytes } = await removeCacheEntries({ olderThanMs });
+  console.error(`Removed ${removed} entries (${formatBytes(bytes)})`);
+}
+
+async function runClear() {
+  const { removed, bytes } = await removeCacheEntries();
+  console.error(
+    `Removed ${removed} entries (${formatBytes(bytes)}) from ${defaultCacheDir}`
+  );
+}
+
+async function runStats(options: CacheCommandOptions) {
+  const entries = await listEntries(options);
+  const stats = {
+    directory: defaultCacheDir,
+    entries: entries.length,
+    bytes: entries.reduce((total, entry) => total + entry.sizeBytes, 0),
+    fresh: entries.filter((entry) => entry.fresh).length,
+    stale: entries.filter((entry) => !entry.fresh).length,
+    unreadable: entries.filter((entry) => !entry.url).length,
+    urls: new Set(entries.map((entry) => entry.url).filter(Boolean)).size,
+    newest: entries[0]?.modifiedAt,
+    oldest: entries.at(-1)?.modifiedAt,
+  };
+  if (options.json) {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+  const lines = [
+    `Directory:  ${stats.directory}`,
+    `Entries:    ${stats.entries} (${stats.urls} URLs)`,
+    `Size:       ${formatBytes(stats.bytes)}`,
+    `Fresh:      ${stats.fresh}`,
+    `Stale:      ${stats.stale}`,
+    `Unreadable: ${stats.unreadable}`,
+  ];
+  if (stats.newest !== undefined && stats.oldest !== undefined) {
+    lines.push(
+      `Newest:     ${formatAge(stats.newest)} ago`,
+      `Oldest:     ${formatAge(stats.oldest)} ago`
+    );
+  }
+  console.log(lines.join("\n"));
+}
+
+/**
+ * Wraps a subcommand action so failures are reported on stderr with a
+ * non-zero exit code instead of a stack trace.
+ */
+function action<A extends unknown[]>(
+  handler: (...args: A) => Promise<void>
+): (...args: A) => Promise<void> {
+  return async (...args) => {
+    try {
+      await handler(...args);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  };
+}
+
+/**
+ * `into-md cache` with `list`, `show`, `prune`, `clear` and `stats`
+ * subcommands for inspecting and cleaning the response cache.
+ */
+export function buildCacheCommand(): Command {
+  const command = new Command("cache")
+    .description(`Inspect and clean the response cache (${defaultCacheDir})`)
+    .option(
+      "--ttl <duration>",
+      "Age after which entries count as stale",
+      DEFAULT_TTL
+    );
+  const parentOptions = () => command.opts<CacheCommandOptions>();
+
+  command
+    .command("list")
+    .description("List cached entries with age, size and extraction options")
+    .option("--json", "Print entries as JSON")
+    .action(
+      action((opts: { json?: boolean }) =>
+        runList({ ...parentOptions(), ...opts })
+      )
+    );
+
+  command
+    .command("show")
+    .description("Print every cached variant of a URL")
+    .argument("<url>", "URL to look up (requested or final URL)")
+    .option("--json", "Print the raw cache entries as JSON")
+    .action(
+      action((url: string, opts: { json?: boolean }) =>
+        runShow(url, { ...parentOptions(), ...opts })
+      )
+    );
+
+  command
+    .command("prune")
+    .description("Remove entries older than a duration (default: --ttl)")
+    .option("--older-than <duration>", "e.g. 30m, 12h, 7d or 2w")
+    .action(
+      action((opts: { olderThan?: string }) =>
+        runPrune(opts.olderThan, parentOptions().ttl)
+      )
+    );
+
+  command
+    .command("clear")
+    .description("Remove every cache entry")
+    .action(action(runClear));
+
+  command
+    .command("stats")
+    .description("Show totals for the cache")
+    .option("--json", "Print stats as JSON")
+    .action(
+      action((opts: { json?: boolean }) =>
+        runStats({ ...parentOptions(), ...opts })
+      )
+    );
+
+  return command;
+}
@@ -1,7 +1,19 @@
 import { afterEach, beforeEach, describe, expect, it } from "bun:test";
-import { mkdir, rm, writeFile } from "node:fs/promises";
+import { mkdir, rm, utimes, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { buildCachePath, readFromCache, writeToCache } from "./cache";
+import {
+  buildCachePath,
+  cacheControlTtlMs,
+  isCacheable,
+  listCacheEntries,
+  lookupCache,
+  readCacheEntries,
+  readFromCache,
+  removeCacheEntries,
+  renewCacheEntry,
+  writeToCache,
+} from "./cache";
+import { parseDuration } from "./utils";
 
 const testCacheDir = join(process.cwd(), ".test-cache-into-md");
 
@@ -47,6 +59,34 @@ describe("cache key with extraction options", () => {
     expect(a).toBe(b);
   });
 
+  it("produces different keys for different page interactions", () => {
+    const url = "https://example.com/page";
+    const noOpts = buildCachePath(url, testCacheDir);
+    const scrolled = buildCachePath(url, testCacheDir, {
+      interactions: { scroll: true, maxScrolls: 20 },
+    });
+    const reordered = buildCachePath(url, testCacheDir, {
+      interactions: { maxScrolls: 20, scroll: true, waitFor: undefined },
+    });
+    expect(noOpts).not.toBe(scrolled);
+    expect(scrolled).toBe(reordered);
+  });
+
+  it("produces a different key when consent banners are kept", () => {
+    const url = "https://example.com/page";
+    expect(
+      buildCachePath(url, testCacheDir, { dismissConsent: false })
+    ).not.toBe(buildCachePath(url, testCacheDir));
+  });
+
+  it("produces different keys for different request variants", () => {
+    const url = "https://example.com/page";
+    const plain = buildCachePath(url, testCacheDir);
+    const variant = buildCachePath(url, testCacheDir, {}, "abc123");
+    expect(plain).not.toBe(variant);
+    expect(variant).not.toContain("abc123");
+  });
+
   it("produces different keys for different encoding", () => {
     const url = "https://example.com/page";
     const noOpts = buildCachePath(url, testCacheDir);
@@ -169,3 +209,154 @@ describe("cache backward compatibility", () => {
     expect(cached?.finalUrl).toBe(finalUrl);
   });
 });
+
+describe("cache management", () => {
+  const options = { cacheDir: testCacheDir };
+
+  beforeEach(async () => {
+    await mkdir(testCacheDir, { recursive: true });
+    await writeToCache(
+      "https://example.com/a",
+      "# A",
+      "https://example.com/a",
+      { title: "A" },
+      options
+    );
+    await writeToCache(
+      "https://example.com/a",
+      "A",
+      "https://example.com/a",
+      {},
+      options,
+      { stripLinks: true }
+    );
+    await writeToCache(
+      "https://example.com/b",
+      "# B",
+      "https://example.com/b",
+      {},
+      options
+    );
+    await writeFile(join(testCacheDir, "broken.json"), "{", "utf8");
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    await utimes(
+      buildCachePath("https://example.com/b", testCacheDir),
+      dayAgo,
+      dayAgo
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  it("lists entries with URL, freshness and extraction options", async () => {
+    const entries = await listCacheEntries(options);
+    expect(entries).toHaveLength(4);
+    const stale = entries.find(
+      (entry) => entry.url === "https://example.com/b"
+    );
+    expect(stale?.fresh).toBe(false);
+    expect(entries.at(-1)?.url).toBe("https://example.com/b");
+    expect(entries.filter((entry) => !entry.url)).toHaveLength(1);
+    expect(entries.find((entry) => entry.extraction?.stripLinks)?.url).toBe(
+      "https://example.com/a"
+    );
+  });
+
+  it("reads every variant of a URL", async () => {
+    const variants = await readCacheEntries("https://example.com/a", options);
+    expect(variants.map((entry) => entry.markdown).sort()).toEqual([
+      "# A",
+      "A",
+    ]);
+  });
+
+  it("prunes only entries older than the cutoff", async () => {
+    const pruned = await removeCacheEntries({
+      ...options,
+      olderThanMs: 60 * 60 * 1000,
+    });
+    expect(pruned.removed).toBe(1);
+    expect(await listCacheEntries(options)).toHaveLength(3);
+
+    const cleared = await removeCacheEntries(options);
+    expect(cleared.removed).toBe(3);
+    expect(await listCacheEntries(options)).toEqual([]);
+  });
+});
+
+describe("cache revalidation", () => {
+  const url = "https://example.com/validated";
+  const options = { cacheDir: testCacheDir };
+  const hourAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    await writeToCache(url, "# V", url, {}, options, undefined, {
+      cacheControl: "public, max-age=86400",
+      etag: '"v1"',
+      lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+    });
+    await utimes(buildCachePath(url, testCacheDir), hourAgo, hourAgo);
+  });
+
+  afterEach(async () => {
+    await rm(testCacheDir, { recursive: true, force: true });
+  });
+
+  it("returns stale entries with their validators", async () => {
+    expect(await readFromCache(url, options)).toBeNull();
+    const found = await lookupCache(url, options);
+    expect(found?.fresh).toBe(false);
+    expect(found?.entry.etag).toBe('"v1"');
+  });
+
+  it("uses Cache-Control max-age as the TTL when asked to", async () => {
+    const found = await lookupCache(url, {
+      ...options,
+      respectCacheControl: true,
+    });
+    expect(found?.fresh).toBe(true);
+  });
+
+  it("renews an entry with updated validators", async () => {
+    const found = await lookupCache(url, options);
+    if (!found) {
+      throw new Error("expected a cache entry");
+    }
+    await renewCacheEntry(found.entry, { etag: '"v2"' }, options);
+    const renewed = await readFromCache(url, options);
+    expect(renewed?.markdown).toBe("# V");
+    expect(renewed?.etag).toBe('"v2"');
+    expect(renewed?.lastModified).toBe("Wed, 01 Jan 2025 00:00:00 GMT");
+  });
+});
+
+describe("cacheControlTtlMs", () => {
+  it("reads max-age and treats no-cache and no-store as zero", () => {
+    expect(cacheControlTtlMs("public, max-age=600")).toBe(600_000);
+    expect(cacheControlTtlMs("s-maxage=60")).toBeUndefined();
+    expect(cacheControlTtlMs("no-cache, max-age=600")).toBe(0);
+    expect(cacheControlTtlMs("no-store")).toBe(0);
+    expect(cacheControlTtlMs(undefined)).toBeUndefined();
+  });
+
+  it("skips no-store responses only when Cache-Control is respected", () => {
+    expect(isCacheable("no-store", { respectCacheControl: true })).toBe(false);
+    expect(isCacheable("no-store")).toBe(true);
+    expect(isCacheable("max-age=60", { respectCacheControl: true })).toBe(true);
+  });
+});
+
+describe("parseDuration", () => {
+  it("parses unit suffixes into milliseconds", () => {
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("12h")).toBe(12 * 60 * 60 * 1000);
+    expect(parseDuration("2w")).toBe(14 * 24 * 60 * 60 * 1000);
+  });
+
+  it("rejects values without a known unit", () => {
+    expect(parseDuration("7")).toBeUndefined();
+    expect(parseDuration("3y")).toBeUndefined();
+  });
+});
@@ -1,11 +1,30 @@
 import { createHash } from "node:crypto";
-import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
 import { dirname, join } from "node:path";
+import type { ContentConverter } from "./documents";
+import type { BrowserInteractions } from "./interactions";
 
 export interface CacheOptions {
   enabled: boolean;
   ttlMs: number;
   cacheDir?: string;
+  /**
+   * Opaque digest of request settings that change the response, such as
+   * custom headers and credentials; hashed into the key, never stored
+   */
+  variant?: string;
+  /**
+   * Use the `max-age` the server sent as the entry's TTL; `no-cache` entries
+   * are always revalidated and `no-store` responses are not cached
+   */
+  respectCacheControl?: boolean;
 }
 
 /** Options that affect markdown output and should be part of the cache key */
@@ -14,37 +33,120 @@ export interface ExtractionOptions {
   excludeSelectors?: string[];
   stripLinks?: boolean;
   encoding?: string;
+  interactions?: BrowserInteractions;
+  /** Only recorded when false */
+  dismissConsent?: boolean;
 }
 
 export interface CacheMetadata {
   title?: string;
   description?: string;
   author?: string;
+  /** Publication date as YYYY-MM-DD, where the document has one (PDFs) */
+  date?: string;
 }
 
-interface CachedResponse {
+/** HTTP caching headers of the response an entry was built from */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+  cacheControl?: string;
+}
+
+/** Optional per-entry data stored alongside the markdown */
+export interface CacheEntryExtras extends CacheValidators {
+  /** Absolute links found in the extracted content */
+  links?: string[];
+  /** Converter used instead of the HTML pipeline */
+  converter?: ContentConverter;
+}
+
+export interface CachedResponse extends CacheEntryExtras {
   url: string;
   finalUrl: string;
   fetchedAt: number;
   markdown: string;
   metadata: CacheMetadata;
+  /** Options the entry was produced with; absent in older entries */
+  extraction?: ExtractionOptions;
   cacheVersion: 2;
 }
 
-const defaultCacheDir = join(
+/** One file in the cache directory, as listed by `listCacheEntries` */
+export interface CacheEntrySummary {
+  path: string;
+  /** Undefined for unreadable or pre-v2 entries */
+  url?: string;
+  finalUrl?: string;
+  title?: string;
+  extraction?: ExtractionOptions;
+  /** Last write time; freshness is measured from here */
+  modifiedAt: number;
+  sizeBytes: number;
+  fresh: boolean;
+}
+
+export const defaultCacheDir = join(
   process.env.HOME ?? process.cwd(),
   ".cache",
   "into-md"
 );
 
 const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const MAX_AGE_RE = /(?:^|,)\s*max-age\s*=\s*"?(\d+)/i;
+const NO_CACHE_RE = /(?:^|,)\s*no-(?:cache|store)\b/i;
+const NO_STORE_RE = /(?:^|,)\s*no-store\b/i;
+
+/**
+ * The TTL a `Cache-Control` header asks for: `max-age`, or zero for
+ * `no-cache` and `no-store`. Undefined when it says neither.
+ */
+export function cacheControlTtlMs(
+  cacheControl: string | undefined
+): number | undefined {
+  if (!cacheControl) {
+    return;
+  }
+  if (NO_CACHE_RE.test(cacheControl)) {
+    return 0;
+  }
+  const maxAge = MAX_AGE_RE.exec(cacheControl)?.[1];
+  return maxAge === undefined ? undefined : Number(maxAge) * 1000;
+}
+
+/** Whether a response may be cached under `respectCacheControl` */
+export function isCacheable(
+  cacheControl: string | undefined,
+  options?: Partial<CacheOptions>
+): boolean {
+  return !(
+    options?.respectCacheControl &&
+    cacheControl &&
+    NO_STORE_RE.test(cacheControl)
+  );
+}
+
+function hasExtractionOptions(extraction: ExtractionOptions): boolean {
+  return Boolean(
+    extraction.raw ||
+      extraction.excludeSelectors?.length ||
+      extraction.stripLinks ||
+      extraction.encoding ||
+      extraction.interactions ||
+      extraction.dismissConsent === false
+  );
+}
 
 export const buildCachePath = (
   url: string,
   cacheDir = defaultCacheDir,
-  extraction?: ExtractionOptions
+  extraction?: ExtractionOptions,
+  variant?: string
 ): string => {
   const hasher = createHash("sha256").update(url);
+  if (variant) {
+    hasher.update(`\nvariant=${variant}`);
+  }
 
   if (extraction) {
     const parts: string[] = [];
@@ -61,6 +163,15 @@ export const buildCachePath = (
     if (extraction.encoding) {
       parts.push(`encoding=${extraction.encoding}`);
     }
+    if (extraction.interactions) {
+      const steps = Object.entries(extraction.interactions)
+        .filter(([, value]) => value !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b));
+      parts.push(`interactions=${JSON.stringify(steps)}`);
+    }
+    if (extraction.dismissConsent === false) {
+      parts.push("dismissConsent=false");
+    }
     if (parts.length > 0) {
       hasher.update(`\n${parts.join("\n")}`);
     }
@@ -70,22 +181,28 @@ export const buildCachePath = (
   return join(cacheDir, `${hash}.json`);
 };
 
-export async function readFromCache(
+/**
+ * Looks up the entry for `url`, fresh or not. Stale entries are returned so
+ * they can be revalidated with their `etag` and `lastModified`.
+ */
+export async function lookupCache(
   url: string,
   options?: Partial<CacheOptions>,
   extraction?: ExtractionOptions
-): Promise<CachedResponse | null> {
+): Promise<{ entry: CachedResponse; fresh: boolean } | null> {
   const {
     enabled = true,
     ttlMs = DEFAULT_TTL_MS,
     cacheDir = defaultCacheDir,
+    variant,
+    respectCacheControl,
   } = options ?? {};
 
   if (!enabled) {
     return null;
   }
 
-  const target = buildCachePath(url, cacheDir, extraction);
+  const target = buildCachePath(url, cacheDir, extraction, variant);
   try {
     const [file, info] = await Promise.all([
       readFile(target, "utf8"),
@@ -97,43 +214,175 @@ export async function readFromCache(
     if (payload.cacheVersion !== 2) {
       return null;
     }
-
-    const isFresh = info.mtimeMs + ttlMs > Date.now();
-    if (!isFresh) {
-      return null;
-    }
     if (payload.url !== url) {
       return null;
     }
-    return payload as unknown as CachedResponse;
+    const entry = payload as unknown as CachedResponse;
+    const entryTtlMs =
+      (respectCacheControl
+        ? cacheControlTtlMs(entry.cacheControl)
+        : undefined) ?? ttlMs;
+    return { entry, fresh: info.mtimeMs + entryTtlMs > Date.now() };
   } catch {
     return null;
   }
 }
 
+export async function readFromCache(
+  url: string,
+  options?: Partial<CacheOptions>,
+  extraction?: ExtractionOptions
+): Promise<CachedResponse | null> {
+  const found = await lookupCache(url, options, extraction);
+  return found?.fresh ? found.entry : null;
+}
+
 export async function writeToCache(
   url: string,
   markdown: string,
   finalUrl: string,
   metadata: CacheMetadata,
   options?: Partial<CacheOptions>,
-  extraction?: ExtractionOptions
+  extraction?: ExtractionOptions,
+  extras: CacheEntryExtras = {}
 ): Promise<void> {
-  const { enabled = true, cacheDir = defaultCacheDir } = options ?? {};
+  const { enabled = true, cacheDir = defaultCacheDir, variant } = options ?? {};
 
   if (!enabled) {
     return;
   }
 
-  const target = buildCachePath(url, cacheDir, extraction);
+  const target = buildCachePath(url, cacheDir, extraction, variant);
   await mkdir(dirname(target), { recursive: true });
   const payload: CachedResponse = {
+    ...extras,
     url,
     finalUrl,
     markdown,
     metadata,
+    ...(extraction && hasExtractionOptions(extraction) ? { extraction } : {}),
     fetchedAt: Date.now(),
     cacheVersion: 2,
   };
   await writeFile(target, JSON.stringify(payload, null, 2), "utf8");
 }
+
+/**
+ * Marks a revalidated entry as fresh again: rewrites it with a new fetch time
+ * and any validators the `304` response updated, keeping the markdown.
+ */
+export async function renewCacheEntry(
+  entry: CachedResponse,
+  validators: CacheValidators,
+  options?: Partial<CacheOptions>
+): Promise<void> {
+  const { cacheDir = defaultCacheDir, variant } = options ?? {};
+  const target = buildCachePath(entry.url, cacheDir, entry.extraction, variant);
+  const payload: CachedResponse = {
+    ...entry,
+    ...validators,
+    fetchedAt: Date.now(),
+  };
+  await writeFile(target, JSON.stringify(payload, null, 2), "utf8");
+}
+
+async function summarizeEntry(
+  path: string,
+  ttlMs: number
+): Promise<CacheEntrySummary | null> {
+  let info: Awaited<ReturnType<typeof stat>>;
+  try {
+    info = await stat(path);
+  } catch {
+    // Removed while listing
+    return null;
+  }
+  const summary: CacheEntrySummary = {
+    path,
+    modifiedAt: info.mtimeMs,
+    sizeBytes: info.size,
+    fresh: info.mtimeMs + ttlMs > Date.now(),
+  };
+  try {
+    const payload = JSON.parse(await readFile(path, "utf8")) as Partial<
+      CachedResponse & { cacheVersion: number }
+    >;
+    if (payload.cacheVersion === 2) {
+      summary.url = payload.url;
+      summary.finalUrl = payload.finalUrl;
+      summary.title = payload.metadata?.title;
+      summary.extraction = payload.extraction;
+    }
+  } catch {
+    // Unreadable entries are still listed so they can be pruned
+  }
+  return summary;
+}
+
+/**
+ * Lists every entry in the cache directory, newest first. Entries that cannot
+ * be read or predate the current format are included without a URL.
+ */
+export async function listCacheEntries(
+  options?: Partial<CacheOptions>
+): Promise<CacheEntrySummary[]> {
+  const { ttlMs = DEFAULT_TTL_MS, cacheDir = defaultCacheDir } = options ?? {};
+  let names: string[];
+  try {
+    names = await readdir(cacheDir);
+  } catch {
+    return [];
+  }
+
+  const summaries = await Promise.all(
+    names
+      .filter((name) => name.endsWith(".json"))
+      .map((name) => summarizeEntry(join(cacheDir, name), ttlMs))
+  );
+  return summaries
+    .filter((summary): summary is CacheEntrySummary => summary !== null)
+    .sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+/** Reads every cached variant of `url`, regardless of freshness */
+export async function readCacheEntries(
+  url: string,
+  options?: Partial<CacheOptions>
+): Promise<(CachedResponse & { path: string })[]> {
+  const entries = await listCacheEntries(options);
+  const matches: (CachedResponse & { path: string })[] = [];
+  for (const entry of entries) {
+    if (entry.url !== url && entry.finalUrl !== url) {
+      continue;
+    }
+    const payload = JSON.parse(
+      await readFile(entry.path, "utf8")
+    ) as CachedResponse;
+    matches.push({ ...payload, path: entry.path });
+  }
+  return matches;
+}
+
+/**
+ * Deletes cache entries last written more than `olderThanMs` ago, or every
+ * entry when `olderThanMs` is omitted. Returns what was removed.
+ */
+export async function removeCacheEntries(
+  options?: Partial<CacheOptions> & { olderThanMs?: number }
+): Promise<{ removed: number; bytes: number }> {
+  const cutoff =
+    options?.olderThanMs === undefined
+      ? Number.POSITIVE_INFINITY
+      : Date.now() - options.olderThanMs;
+  let removed = 0;
+  let bytes = 0;
+  for (const entry of await listCacheEntries(options)) {
+    if (entry.modifiedAt >= cutoff) {
+      continue;
+    }
+    await rm(entry.path, { force: true });
+    removed += 1;
+    bytes += entry.sizeBytes;
+  }
+  return { removed, bytes };
+}
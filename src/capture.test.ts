@@ -0,0 +1,87 @@
+import { afterAll, describe, expect, it } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Page } from "playwright";
+import { capturePage, hasCaptures } from "./capture";
+
+const tempDir = mkdtempSync(join(tmpdir(), "into-md-capture-"));
+
+afterAll(() => {
+  rmSync(tempDir, { force: true, recursive: true });
+});
+
+/** Records the calls a capture makes, in order */
+function fakePage(fail?: string) {
+  const calls: string[] = [];
+  const page = {
+    emulateMedia: ({ media }: { media: string }) => {
+      calls.push(`media ${media}`);
+      return Promise.resolve();
+    },
+    pdf: ({ path }: { path: string }) => {
+      calls.push(`pdf ${path}`);
+      return Promise.resolve();
+    },
+    screenshot: ({ fullPage, path }: { fullPage: boolean; path: string }) => {
+      if (fail) {
+        return Promise.reject(new Error(fail));
+      }
+      calls.push(`screenshot ${path}${fullPage ? " (full page)" : ""}`);
+      return Promise.resolve();
+    },
+  };
+  return { calls, page: page as unknown as Page };
+}
+
+describe("capturePage", () => {
+  it("saves a full-page screenshot and a screen-styled PDF", async () => {
+    const { calls, page } = fakePage();
+    const screenshot = join(tempDir, "shots", "page.png");
+    const pdf = join(tempDir, "page.pdf");
+    const log: string[] = [];
+    const saved = await capturePage(page, { pdf, screenshot }, (message) =>
+      log.push(message)
+    );
+    expect(saved).toEqual({ pdf, screenshot });
+    expect(calls).toEqual([
+      `screenshot ${screenshot} (full page)`,
+      "media screen",
+      `pdf ${pdf}`,
+    ]);
+    expect(existsSync(join(tempDir, "shots"))).toBe(true);
+    expect(log).toEqual([
+      `Saved screenshot to ${screenshot}`,
+      `Saved PDF to ${pdf}`,
+    ]);
+  });
+
+  it("resolves relative paths", async () => {
+    const { page } = fakePage();
+    const saved = await capturePage(page, { screenshot: "page.png" }, () => {
+      // Not logged
+    });
+    expect(saved).toEqual({ screenshot: join(process.cwd(), "page.png") });
+  });
+
+  it("names the file it could not save", async () => {
+    const { page } = fakePage("Target closed");
+    const screenshot = join(tempDir, "broken.png");
+    await expect(
+      capturePage(page, { screenshot }, () => {
+        // Not logged
+      })
+    ).rejects.toThrow(
+      `Unable to save screenshot to ${screenshot}: Error: Target closed`
+    );
+  });
+});
+
+describe("hasCaptures", () => {
+  it("needs a file to write", () => {
+    expect(hasCaptures({ screenshot: "a.png" })).toBe(true);
+    expect(hasCaptures({ pdf: "a.pdf" })).toBe(true);
+    expect(hasCaptures({ force: true })).toBe(false);
+    expect(hasCaptures(undefined)).toBe(false);
+  });
+});
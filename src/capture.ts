@@ -0,0 +1,74 @@
+import { mkdir } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { Page } from "playwright";
+
+/** Files to save from the rendered page */
+export interface CaptureOptions {
+  /** Full-page PNG screenshot */
+  screenshot?: string;
+  /** PDF, printed with screen styles so it matches the screenshot */
+  pdf?: string;
+  /** Render pages fetched statically in a browser just for the captures */
+  force?: boolean;
+}
+
+/** Absolute paths of the files written */
+export interface CapturedFiles {
+  screenshot?: string;
+  pdf?: string;
+}
+
+export function hasCaptures(
+  captures?: CaptureOptions
+): captures is CaptureOptions {
+  return Boolean(captures?.screenshot || captures?.pdf);
+}
+
+async function save(
+  kind: string,
+  file: string,
+  write: (path: string) => Promise<unknown>,
+  log: (message: string) => void
+): Promise<string> {
+  const path = resolve(file);
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await write(path);
+  } catch (error) {
+    throw new Error(`Unable to save ${kind} to ${path}: ${String(error)}`, {
+      cause: error,
+    });
+  }
+  log(`Saved ${kind} to ${path}`);
+  return path;
+}
+
+/**
+ * Saves a full-page screenshot and/or a PDF of `page` as it is now, i.e.
+ * after interactions and overlay removal, so it shows what was converted.
+ */
+export async function capturePage(
+  page: Page,
+  captures: CaptureOptions,
+  log: (message: string) => void
+): Promise<CapturedFiles> {
+  const saved: CapturedFiles = {};
+  if (captures.screenshot) {
+    saved.screenshot = await save(
+      "screenshot",
+      captures.screenshot,
+      (path) => page.screenshot({ fullPage: true, path }),
+      log
+    );
+  }
+  if (captures.pdf) {
+    await page.emulateMedia({ media: "screen" });
+    saved.pdf = await save(
+      "PDF",
+      captures.pdf,
+      (path) => page.pdf({ path, printBackground: true }),
+      log
+    );
+  }
+  return saved;
+}
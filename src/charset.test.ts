@@ -0,0 +1,80 @@
+import { describe, expect, it } from "bun:test";
+import { decodeBody, detectCharset } from "./charset";
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+// "日本" in Shift_JIS
+const SHIFT_JIS_BYTES = [0x93, 0xfa, 0x96, 0x7b];
+
+describe("detectCharset", () => {
+  it("prefers a byte-order mark over the Content-Type charset", () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...ascii("<p>hi</p>")]);
+    expect(detectCharset(bytes, "text/html; charset=iso-8859-1")).toEqual({
+      encoding: "utf-8",
+      source: "bom",
+    });
+  });
+
+  it("reads the Content-Type charset before meta tags", () => {
+    const bytes = ascii('<meta charset="utf-8">');
+    expect(detectCharset(bytes, 'text/html; charset="Shift_JIS"')).toEqual({
+      encoding: "shift_jis",
+      source: "header",
+    });
+  });
+
+  it("finds meta charset and http-equiv declarations", () => {
+    expect(detectCharset(ascii('<meta charset="windows-1252">'))).toEqual({
+      encoding: "windows-1252",
+      source: "meta",
+    });
+    expect(
+      detectCharset(
+        ascii(
+          '<meta http-equiv="Content-Type" content="text/html; charset=gbk">'
+        ),
+        "text/html"
+      )
+    ).toEqual({ encoding: "gbk", source: "meta" });
+    expect(
+      detectCharset(ascii('<?xml version="1.0" encoding="ISO-8859-1"?>'))
+    ).toEqual({ encoding: "windows-1252", source: "meta" });
+  });
+
+  it("treats a UTF-16 meta label as UTF-8", () => {
+    expect(detectCharset(ascii('<meta charset="utf-16">')).encoding).toBe(
+      "utf-8"
+    );
+  });
+
+  it("skips unsupported labels and falls back by validity", () => {
+    expect(
+      detectCharset(ascii("<p>plain</p>"), "text/html; charset=bogus")
+    ).toEqual({ encoding: "utf-8", source: "fallback" });
+    expect(detectCharset(new Uint8Array([0x3c, 0xe9, 0x3e]))).toEqual({
+      encoding: "windows-1252",
+      source: "fallback",
+    });
+  });
+
+  it("lets an explicit encoding override everything", () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf]);
+    expect(detectCharset(bytes, undefined, "latin1")).toEqual({
+      encoding: "windows-1252",
+      source: "option",
+    });
+    expect(() => detectCharset(bytes, undefined, "bogus")).toThrow(
+      "Unsupported encoding: bogus"
+    );
+  });
+});
+
+describe("decodeBody", () => {
+  it("decodes Shift_JIS declared in a meta tag", () => {
+    const bytes = new Uint8Array([
+      ...ascii('<meta charset="shift_jis"><p>'),
+      ...SHIFT_JIS_BYTES,
+      ...ascii("</p>"),
+    ]);
+    expect(decodeBody(bytes).text).toContain("<p>日本</p>");
+  });
+});
@@ -0,0 +1,120 @@
+const CONTENT_TYPE_CHARSET_RE = /;\s*charset\s*=\s*["']?([^"';\s]+)/i;
+const META_CHARSET_RE = /<meta\s[^>]*?charset\s*=\s*["']?\s*([\w:.-]+)/i;
+const XML_ENCODING_RE = /^<\?xml\s[^>]*encoding\s*=\s*["']([\w:.-]+)["']/;
+const UTF16_LABEL_RE = /^utf-16/;
+
+/** How far into the body to look for a meta charset, as browsers do */
+const PRESCAN_BYTES = 1024;
+
+const BOMS: [number[], string][] = [
+  [[0xef, 0xbb, 0xbf], "utf-8"],
+  [[0xfe, 0xff], "utf-16be"],
+  [[0xff, 0xfe], "utf-16le"],
+];
+
+/** Where the encoding of a body came from */
+export type CharsetSource = "option" | "bom" | "header" | "meta" | "fallback";
+
+export interface DetectedCharset {
+  /** Canonical WHATWG encoding name, e.g. `shift_jis` */
+  encoding: string;
+  source: CharsetSource;
+}
+
+const SOURCE_LABELS: Record<CharsetSource, string> = {
+  bom: "byte-order mark",
+  fallback: "fallback",
+  header: "Content-Type header",
+  meta: "meta tag",
+  option: "--encoding",
+};
+
+/** The canonical name for an encoding label, or undefined if unsupported */
+function canonicalEncoding(label: string): string | undefined {
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return;
+  }
+}
+
+function encodingFromBom(bytes: Uint8Array): string | undefined {
+  return BOMS.find(([bom]) => bom.every((byte, i) => bytes[i] === byte))?.[1];
+}
+
+/**
+ * Looks for `<meta charset>`, `<meta http-equiv="Content-Type">` or an XML
+ * declaration in the first bytes. A UTF-16 label there is wrong by
+ * definition (the prescan read it as ASCII), so it means UTF-8.
+ */
+function encodingFromMarkup(bytes: Uint8Array): string | undefined {
+  const head = new TextDecoder("windows-1252").decode(
+    bytes.subarray(0, PRESCAN_BYTES)
+  );
+  const label =
+    META_CHARSET_RE.exec(head)?.[1] ?? XML_ENCODING_RE.exec(head)?.[1];
+  const encoding = label && canonicalEncoding(label);
+  return encoding && UTF16_LABEL_RE.test(encoding) ? "utf-8" : encoding;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Picks the encoding of a body the way browsers do: an explicit override,
+ * then a byte-order mark, the `Content-Type` charset, a meta tag or XML
+ * declaration near the start, and finally UTF-8, or windows-1252 for bytes
+ * that are not valid UTF-8. Unsupported labels are skipped.
+ */
+export function detectCharset(
+  bytes: Uint8Array,
+  contentType?: string,
+  override?: string
+): DetectedCharset {
+  if (override) {
+    const encoding = canonicalEncoding(override);
+    if (!encoding) {
+      throw new Error(`Unsupported encoding: ${override}`);
+    }
+    return { encoding, source: "option" };
+  }
+  const bom = encodingFromBom(bytes);
+  if (bom) {
+    return { encoding: bom, source: "bom" };
+  }
+  const headerLabel = contentType && CONTENT_TYPE_CHARSET_RE.exec(contentType);
+  const header = headerLabel && canonicalEncoding(headerLabel[1] ?? "");
+  if (header) {
+    return { encoding: header, source: "header" };
+  }
+  const meta = encodingFromMarkup(bytes);
+  if (meta) {
+    return { encoding: meta, source: "meta" };
+  }
+  return {
+    encoding: isValidUtf8(bytes) ? "utf-8" : "windows-1252",
+    source: "fallback",
+  };
+}
+
+/** Decodes a body with the detected encoding; see `detectCharset` */
+export function decodeBody(
+  body: ArrayBuffer | Uint8Array,
+  contentType?: string,
+  override?: string
+): { text: string; charset: DetectedCharset } {
+  const bytes = body instanceof Uint8Array ? body : new Uint8Array(body);
+  const charset = detectCharset(bytes, contentType, override);
+  return { charset, text: new TextDecoder(charset.encoding).decode(bytes) };
+}
+
+/** e.g. `shift_jis (from Content-Type header)`, for verbose logs */
+export function describeCharset(charset: DetectedCharset): string {
+  return `${charset.encoding} (from ${SOURCE_LABELS[charset.source]})`;
+}
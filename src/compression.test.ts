@@ -0,0 +1,68 @@
+import { describe, expect, it } from "bun:test";
+import {
+  brotliCompressSync,
+  deflateRawSync,
+  deflateSync,
+  gzipSync,
+} from "node:zlib";
+import {
+  BodyTooLargeError,
+  decodeContent,
+  readBodyLimited,
+} from "./compression";
+
+const html = "<p>hello</p>".repeat(100);
+const encoded = (encoding: string) =>
+  new Headers({ "Content-Encoding": encoding });
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("decodeContent", () => {
+  it("decodes gzip, br and both deflate flavours", () => {
+    for (const [encoding, body] of [
+      ["gzip", gzipSync(html)],
+      ["br", brotliCompressSync(html)],
+      ["deflate", deflateSync(html)],
+      ["deflate", deflateRawSync(html)],
+    ] as const) {
+      const decoded = decodeContent(body, encoded(encoding));
+      expect(text(decoded.bytes)).toBe(html);
+      expect(decoded.transferBytes).toBe(body.byteLength);
+    }
+  });
+
+  it("undoes stacked encodings in reverse order", () => {
+    const body = brotliCompressSync(gzipSync(html));
+    expect(text(decodeContent(body, encoded("gzip, br")).bytes)).toBe(html);
+  });
+
+  it("passes identity bodies through", () => {
+    const body = new TextEncoder().encode(html);
+    expect(decodeContent(body, new Headers()).encodings).toEqual([]);
+    expect(decodeContent(body, encoded("identity")).bytes).toBe(body);
+  });
+
+  it("caps decompressed output", () => {
+    const bomb = gzipSync(Buffer.alloc(1024 * 1024));
+    expect(() => decodeContent(bomb, encoded("gzip"), 64 * 1024)).toThrow(
+      BodyTooLargeError
+    );
+  });
+
+  it("rejects unknown and corrupt encodings", () => {
+    expect(() => decodeContent(gzipSync(html), encoded("compress"))).toThrow(
+      "Unsupported Content-Encoding: compress"
+    );
+    expect(() =>
+      decodeContent(new Uint8Array([1, 2, 3]), encoded("gzip"))
+    ).toThrow("Failed to decode gzip response");
+  });
+});
+
+describe("readBodyLimited", () => {
+  it("stops reading past the limit", async () => {
+    await expect(
+      readBodyLimited(new Response("x".repeat(2048)), 1024)
+    ).rejects.toThrow(BodyTooLargeError);
+    expect(text(await readBodyLimited(new Response("ok"), 1024))).toBe("ok");
+  });
+});
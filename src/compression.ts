@@ -0,0 +1,150 @@
+import zlib from "node:zlib";
+
+/** Cap on a response body, compressed or decoded */
+export const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+type Decoder = (input: Uint8Array, maxOutputLength: number) => Buffer;
+
+// Accessed through the namespace: Node versions before 22.15 lack zstd
+const zstdDecompressSync = zlib.zstdDecompressSync as
+  | typeof zlib.zstdDecompressSync
+  | undefined;
+
+/** Raw deflate is what some servers send for `deflate`, so fall back to it */
+function inflateAny(input: Uint8Array, maxOutputLength: number): Buffer {
+  try {
+    return zlib.inflateSync(input, { maxOutputLength });
+  } catch (error) {
+    if ((error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") {
+      throw error;
+    }
+    return zlib.inflateRawSync(input, { maxOutputLength });
+  }
+}
+
+const DECODERS: Record<string, Decoder | undefined> = {
+  br: (input, maxOutputLength) =>
+    zlib.brotliDecompressSync(input, { maxOutputLength }),
+  deflate: inflateAny,
+  gzip: (input, maxOutputLength) => zlib.gunzipSync(input, { maxOutputLength }),
+  "x-gzip": (input, maxOutputLength) =>
+    zlib.gunzipSync(input, { maxOutputLength }),
+  zstd: zstdDecompressSync
+    ? (input, maxOutputLength) => zstdDecompressSync(input, { maxOutputLength })
+    : undefined,
+};
+
+/** Bun's fetch can hand over the compressed bytes; Node's always decodes */
+const decodesItself = Boolean(process.versions.bun);
+
+/**
+ * The `Accept-Encoding` to send. zstd is only offered when decoding here, and
+ * only where zlib supports it.
+ */
+export function acceptEncoding(): string {
+  return decodesItself && zstdDecompressSync
+    ? "gzip, deflate, br, zstd"
+    : "gzip, deflate, br";
+}
+
+/** Extra `fetch` options so the body arrives as sent, where supported */
+export function compressionFetchOptions(): { decompress?: boolean } {
+  return decodesItself ? { decompress: false } : {};
+}
+
+/** Thrown when a body, before or after decompression, exceeds the cap */
+export class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(
+      `Response body exceeds the ${Math.round(limit / (1024 * 1024))} MB limit`
+    );
+    this.name = "BodyTooLargeError";
+  }
+}
+
+/**
+ * Reads a response body, aborting once it exceeds `limit` bytes instead of
+ * buffering it whole.
+ */
+export async function readBodyLimited(
+  response: Response,
+  limit = MAX_BODY_BYTES
+): Promise<Uint8Array> {
+  if (!response.body) {
+    return new Uint8Array();
+  }
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      throw new BodyTooLargeError(limit);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export interface DecodedBody {
+  bytes: Uint8Array;
+  /** `Content-Encoding` codings, in the order the server applied them */
+  encodings: string[];
+  /** Bytes on the wire, when known */
+  transferBytes?: number;
+}
+
+function parseContentEncoding(header: string | null): string[] {
+  return (header ?? "")
+    .split(",")
+    .map((coding) => coding.trim().toLowerCase())
+    .filter((coding) => coding && coding !== "identity");
+}
+
+/**
+ * Undoes the response's `Content-Encoding` on a body read with
+ * `readBodyLimited`. Output is capped at `limit` bytes, so a decompression
+ * bomb fails instead of exhausting memory. Under Node, fetch has already
+ * decoded the body and only the wire size is filled in.
+ */
+export function decodeContent(
+  raw: Uint8Array,
+  headers: Headers,
+  limit = MAX_BODY_BYTES
+): DecodedBody {
+  const encodings = parseContentEncoding(headers.get("Content-Encoding"));
+  if (!encodings.length) {
+    return { bytes: raw, encodings, transferBytes: raw.byteLength };
+  }
+  if (!decodesItself) {
+    const contentLength = Number(headers.get("Content-Length"));
+    return {
+      bytes: raw,
+      encodings,
+      transferBytes: contentLength > 0 ? contentLength : undefined,
+    };
+  }
+  let bytes = raw;
+  for (const coding of encodings.toReversed()) {
+    const decode = DECODERS[coding];
+    if (!decode) {
+      throw new Error(`Unsupported Content-Encoding: ${coding}`);
+    }
+    try {
+      bytes = decode(bytes, limit);
+    } catch (error) {
+      if ((error as { code?: string }).code === "ERR_BUFFER_TOO_LARGE") {
+        throw new BodyTooLargeError(limit);
+      }
+      throw new Error(`Failed to decode ${coding} response: ${String(error)}`, {
+        cause: error,
+      });
+    }
+  }
+  return { bytes, encodings, transferBytes: raw.byteLength };
+}
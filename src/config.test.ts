@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  type LoadedConfig,
+  loadConfig,
+  matchProfile,
+  resolveProfile,
+} from "./config";
+
+const testDir = join(process.cwd(), ".test-config-into-md");
+
+const LOADED: LoadedConfig = {
+  path: "/etc/into-md/into-md.config.json",
+  config: {
+    defaults: { timeout: 10_000, exclude: ["nav"] },
+    profiles: {
+      blog: { match: "https://example.com/blog/**", stripLinks: true },
+      docs: {
+        match: ["docs.example.com", "*.docs.example.com"],
+        js: true,
+        exclude: "footer, .sidebar",
+        cookies: "cookies.txt",
+        blocklist: "lists/hosts.txt",
+      },
+    },
+  },
+};
+
+describe("matchProfile", () => {
+  it("matches hosts and host globs", () => {
+    expect(matchProfile(LOADED.config, "https://docs.example.com/a")).toBe(
+      "docs"
+    );
+    expect(matchProfile(LOADED.config, "https://v2.docs.example.com/")).toBe(
+      "docs"
+    );
+  });
+
+  it("matches URL globs", () => {
+    expect(matchProfile(LOADED.config, "https://example.com/blog/x/y")).toBe(
+      "blog"
+    );
+    expect(matchProfile(LOADED.config, "https://example.com/about")).toBe(
+      undefined
+    );
+  });
+});
+
+describe("resolveProfile", () => {
+  it("merges defaults with the matched profile", () => {
+    const resolved = resolveProfile(LOADED, "https://docs.example.com/");
+    expect(resolved.name).toBe("docs");
+    expect(resolved.options).toEqual({
+      timeout: 10_000,
+      js: true,
+      exclude: "footer, .sidebar",
+      cookies: "/etc/into-md/cookies.txt",
+      blocklist: "/etc/into-md/lists/hosts.txt",
+    });
+  });
+
+  it("uses defaults alone when nothing matches", () => {
+    const resolved = resolveProfile(LOADED, "https://other.com/");
+    expect(resolved.name).toBeUndefined();
+    expect(resolved.options).toEqual({ timeout: 10_000, exclude: "nav" });
+  });
+
+  it("honours a forced profile", () => {
+    const resolved = resolveProfile(LOADED, "https://other.com/", "blog");
+    expect(resolved.name).toBe("blog");
+    expect(resolved.options.stripLinks).toBe(true);
+  });
+
+  it("merges headers from defaults and the profile", () => {
+    const resolved = resolveProfile(
+      {
+        path: "/tmp/into-md.config.json",
+        config: {
+          defaults: { headers: { "Accept-Language": "en", "X-Team": "a" } },
+          profiles: {
+            wiki: { match: "wiki.corp", headers: ["X-Team: b"], auth: "u:p" },
+          },
+        },
+      },
+      "https://wiki.corp/page"
+    );
+    expect(resolved.options.headers).toEqual({
+      "Accept-Language": "en",
+      "X-Team": "b",
+    });
+    expect(resolved.options.auth).toBe("u:p");
+  });
+
+  it("rejects unknown forced profiles", () => {
+    expect(() => resolveProfile(LOADED, "https://other.com/", "nope")).toThrow(
+      'Profile "nope" not found'
+    );
+  });
+});
+
+describe("loadConfig", () => {
+  beforeEach(async () => {
+    await mkdir(join(testDir, "project", "nested"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("finds the config in a parent directory", async () => {
+    const path = join(testDir, "project", ".into-mdrc");
+    await writeFile(path, JSON.stringify({ defaults: { raw: true } }));
+    const loaded = await loadConfig(
+      undefined,
+      join(testDir, "project", "nested"),
+      join(testDir, "home")
+    );
+    expect(loaded?.path).toBe(path);
+    expect(loaded?.config.defaults?.raw).toBe(true);
+  });
+
+  it("rejects values of the wrong type or range", async () => {
+    const path = join(testDir, "into-md.config.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        defaults: { timeout: "30s" },
+        profiles: { docs: { match: "docs.example.com", waitMs: -5 } },
+      })
+    );
+    await expect(loadConfig(path)).rejects.toThrow(
+      `Invalid config file ${path}: defaults.timeout: Invalid input: expected number, received string; profiles.docs.waitMs: Too small: expected number to be >=0`
+    );
+  });
+
+  it("reports invalid JSON", async () => {
+    const path = join(testDir, "into-md.config.json");
+    await writeFile(path, "{ nope");
+    await expect(loadConfig(path)).rejects.toThrow("Invalid JSON");
+  });
+});
@@ -0,0 +1,313 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { z } from "zod";
+import { parseHeaders } from "./headers";
+import { globToRegExp } from "./utils";
+
+export const CONFIG_FILE_NAMES = ["into-md.config.json", ".into-mdrc"];
+
+/** Fetch options that may be set in the config file */
+export interface ProfileOptions {
+  js?: boolean;
+  raw?: boolean;
+  cookies?: string;
+  userAgent?: string;
+  encoding?: string;
+  stripLinks?: boolean;
+  /** CSS selectors to exclude, as an array or a comma-separated string */
+  exclude?: string | string[];
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+  respectRobots?: boolean;
+  hostDelay?: number;
+  proxy?: string;
+  /** Request headers, as an object or `Name: value` strings */
+  headers?: Record<string, string> | string[];
+  /** Basic auth credentials as `user:pass` */
+  auth?: string;
+  bearerToken?: string;
+  cache?: boolean;
+  respectCacheControl?: boolean;
+  /** Headless page interactions; see `BrowserInteractions` */
+  waitFor?: string;
+  waitMs?: number;
+  scroll?: boolean;
+  maxScrolls?: number;
+  click?: string;
+  maxClicks?: number;
+  /** Answer consent banners and remove overlays */
+  dismissConsent?: boolean;
+  /** Block images, media, fonts and trackers in headless mode */
+  block?: boolean;
+  /** Hosts file replacing the bundled tracker blocklist */
+  blocklist?: string;
+}
+
+export interface ConfigProfile extends ProfileOptions {
+  /** Hosts (`docs.example.com`, `*.example.com`) or URL globs (`https://example.com/blog/**`) */
+  match?: string | string[];
+}
+
+export interface IntoMdConfig {
+  defaults?: ProfileOptions;
+  profiles?: Record<string, ConfigProfile>;
+}
+
+export interface LoadedConfig {
+  path: string;
+  config: IntoMdConfig;
+}
+
+export interface ResolvedProfile {
+  /** Name of the matched (or forced) profile, if any */
+  name?: string;
+  /**
+   * Defaults merged with the profile, `exclude` joined, `cookies` and
+   * `blocklist` resolved and `headers` parsed and merged
+   */
+  options: Omit<ProfileOptions, "exclude" | "headers"> & {
+    exclude?: string;
+    headers?: Record<string, string>;
+  };
+}
+
+/** Config keys that can also be given as CLI flags */
+export const PROFILE_KEYS: (keyof ProfileOptions)[] = [
+  "js",
+  "raw",
+  "cookies",
+  "userAgent",
+  "encoding",
+  "stripLinks",
+  "exclude",
+  "timeout",
+  "retries",
+  "retryDelay",
+  "respectRobots",
+  "hostDelay",
+  "proxy",
+  "headers",
+  "auth",
+  "bearerToken",
+  "cache",
+  "respectCacheControl",
+  "waitFor",
+  "waitMs",
+  "scroll",
+  "maxScrolls",
+  "click",
+  "maxClicks",
+  "dismissConsent",
+  "block",
+  "blocklist",
+];
+
+const count = z.number().int().nonnegative();
+const stringList = z.union([z.string(), z.array(z.string())]);
+
+const profileOptionsSchema = z.object({
+  js: z.boolean().optional(),
+  raw: z.boolean().optional(),
+  cookies: z.string().optional(),
+  userAgent: z.string().optional(),
+  encoding: z.string().optional(),
+  stripLinks: z.boolean().optional(),
+  exclude: stringList.optional(),
+  timeout: z.number().positive().optional(),
+  retries: count.optional(),
+  retryDelay: z.number().nonnegative().optional(),
+  respectRobots: z.boolean().optional(),
+  hostDelay: z.number().nonnegative().optional(),
+  proxy: z.string().optional(),
+  headers: z
+    .union([z.record(z.string(), z.string()), z.array(z.string())])
+    .optional(),
+  auth: z.string().optional(),
+  bearerToken: z.string().optional(),
+  cache: z.boolean().optional(),
+  respectCacheControl: z.boolean().optional(),
+  waitFor: z.string().optional(),
+  waitMs: z.number().nonnegative().optional(),
+  scroll: z.boolean().optional(),
+  maxScrolls: count.optional(),
+  click: z.string().optional(),
+  maxClicks: count.optional(),
+  dismissConsent: z.boolean().optional(),
+  block: z.boolean().optional(),
+  blocklist: z.string().optional(),
+}) satisfies z.ZodType<ProfileOptions>;
+
+const configSchema = z.object({
+  defaults: profileOptionsSchema.optional(),
+  profiles: z
+    .record(
+      z.string(),
+      profileOptionsSchema.extend({ match: stringList.optional() })
+    )
+    .optional(),
+}) satisfies z.ZodType<IntoMdConfig>;
+
+/** E.g. `profiles.docs.waitMs: Too small: expected number to be >=0` */
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+async function readConfig(path: string): Promise<LoadedConfig | null> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf8");
+  } catch {
+    return null;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in config file ${path}: ${String(error)}`, {
+      cause: error,
+    });
+  }
+  if (!config || typeof config !== "object" || Array.isArray(config)) {
+    throw new Error(`Config file ${path} must contain a JSON object`);
+  }
+  const parsed = configSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid config file ${path}: ${describeIssues(parsed.error)}`
+    );
+  }
+  return { path, config: parsed.data };
+}
+
+function candidateDirs(cwd: string, home: string): string[] {
+  const dirs: string[] = [];
+  let dir = resolve(cwd);
+  while (true) {
+    dirs.push(dir);
+    const parent = dirname(dir);
+    if (parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+  if (!dirs.includes(home)) {
+    dirs.push(home);
+  }
+  return dirs;
+}
+
+/**
+ * Loads the config file at `explicitPath`, or the first `into-md.config.json`
+ * / `.into-mdrc` found walking up from `cwd`, then in the home directory.
+ */
+export async function loadConfig(
+  explicitPath?: string,
+  cwd = process.cwd(),
+  home = homedir()
+): Promise<LoadedConfig | null> {
+  if (explicitPath) {
+    const loaded = await readConfig(resolve(explicitPath));
+    if (!loaded) {
+      throw new Error(`Config file not found: ${explicitPath}`);
+    }
+    return loaded;
+  }
+
+  for (const dir of candidateDirs(cwd, home)) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const loaded = await readConfig(join(dir, name));
+      if (loaded) {
+        return loaded;
+      }
+    }
+  }
+  return null;
+}
+
+function matchesPattern(url: URL, pattern: string): boolean {
+  if (pattern.includes("://")) {
+    return globToRegExp(pattern).test(url.href);
+  }
+  return globToRegExp(pattern.toLowerCase()).test(url.hostname);
+}
+
+/** Returns the name of the first profile, in file order, matching `url`. */
+export function matchProfile(
+  config: IntoMdConfig,
+  url: string
+): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return;
+  }
+  for (const [name, profile] of Object.entries(config.profiles ?? {})) {
+    const patterns = [profile.match ?? []].flat();
+    if (patterns.some((pattern) => matchesPattern(parsed, pattern))) {
+      return name;
+    }
+  }
+  return;
+}
+
+function pickProfileOptions(
+  source: ProfileOptions | undefined,
+  configDir: string
+): ResolvedProfile["options"] {
+  const options: ResolvedProfile["options"] = {};
+  for (const key of PROFILE_KEYS) {
+    const value = source?.[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (key === "exclude") {
+      options.exclude = [value as string | string[]].flat().join(",");
+    } else if (key === "cookies" || key === "blocklist") {
+      options[key] = resolve(configDir, value as string);
+    } else if (key === "headers") {
+      options.headers = Array.isArray(value)
+        ? parseHeaders(value)
+        : (value as Record<string, string>);
+    } else {
+      Object.assign(options, { [key]: value });
+    }
+  }
+  return options;
+}
+
+/**
+ * Resolves the options that apply to `url`: the config defaults overlaid with
+ * the forced profile, or else the first profile matching the URL. Relative
+ * cookie and blocklist paths resolve against the config file's directory.
+ */
+export function resolveProfile(
+  loaded: LoadedConfig,
+  url: string,
+  forcedProfile?: string
+): ResolvedProfile {
+  const { config } = loaded;
+  const name = forcedProfile ?? matchProfile(config, url);
+  const profile = name ? config.profiles?.[name] : undefined;
+  if (forcedProfile && !profile) {
+    throw new Error(`Profile "${forcedProfile}" not found in ${loaded.path}`);
+  }
+
+  const configDir = dirname(loaded.path);
+  const defaults = pickProfileOptions(config.defaults, configDir);
+  const selected = pickProfileOptions(profile, configDir);
+  const options = { ...defaults, ...selected };
+  if (defaults.headers && selected.headers) {
+    options.headers = { ...defaults.headers, ...selected.headers };
+  }
+  return { name, options };
+}
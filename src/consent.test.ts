@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { JSDOM } from "jsdom";
+import type { Page } from "playwright";
+import { dismissConsent, removeOverlays } from "./consent";
+import { extractContent } from "./extractor";
+
+const globals = globalThis as unknown as Record<string, unknown>;
+
+afterEach(() => {
+  for (const name of ["document", "window", "getComputedStyle"]) {
+    Reflect.deleteProperty(globals, name);
+  }
+});
+
+/** Frames whose locators report the buttons in `visible` as present */
+function fakePage(frames: { url: string; visible: string[] }[]) {
+  const clicked: string[] = [];
+  const fakeFrames = frames.map((frame) => ({
+    locator: (selector: string) => {
+      const match = frame.visible.find((button) =>
+        selector.split(", ").includes(button)
+      );
+      return {
+        first: () => ({
+          click: () => {
+            clicked.push(`${frame.url} ${match}`);
+            return Promise.resolve();
+          },
+          isVisible: () => Promise.resolve(Boolean(match)),
+        }),
+      };
+    },
+    url: () => frame.url,
+  }));
+  const page = {
+    frames: () => fakeFrames,
+    mainFrame: () => fakeFrames[0],
+    waitForLoadState: () => Promise.resolve(),
+  };
+  return { clicked, page: page as unknown as Page };
+}
+
+/** Loads `html` as the page's document; `data-area` fakes layout */
+function pageWithDocument(html: string): Page {
+  const window = new JSDOM(html).window as Window & typeof globalThis;
+  window.HTMLElement.prototype.getBoundingClientRect = function () {
+    const [width, height] = (this.dataset.area ?? "0x0").split("x");
+    return { height: Number(height), width: Number(width) } as DOMRect;
+  };
+  Object.assign(window, { innerHeight: 800, innerWidth: 1000 });
+  globals.document = window.document;
+  globals.window = window;
+  globals.getComputedStyle = window.getComputedStyle.bind(window);
+  const page = {
+    evaluate: (fn: (arg: unknown) => unknown, arg: unknown) =>
+      Promise.resolve(fn(arg)),
+  };
+  return page as unknown as Page;
+}
+
+describe("dismissConsent", () => {
+  it("prefers reject over accept", async () => {
+    const { clicked, page } = fakePage([
+      {
+        url: "https://example.com/",
+        visible: [
+          "#onetrust-accept-btn-handler",
+          "#onetrust-reject-all-handler",
+        ],
+      },
+    ]);
+    const log: string[] = [];
+    await dismissConsent(page, (message) => log.push(message));
+    expect(clicked).toEqual([
+      "https://example.com/ #onetrust-reject-all-handler",
+    ]);
+    expect(log).toEqual(["Dismissed consent banner"]);
+  });
+
+  it("looks inside frames", async () => {
+    const { clicked, page } = fakePage([
+      { url: "https://example.com/", visible: [] },
+      { url: "https://cmp.example.net/banner", visible: [".fc-cta-consent"] },
+    ]);
+    const log: string[] = [];
+    await dismissConsent(page, (message) => log.push(message));
+    expect(clicked).toEqual(["https://cmp.example.net/banner .fc-cta-consent"]);
+    expect(log).toEqual([
+      "Dismissed consent banner in a frame from cmp.example.net",
+    ]);
+  });
+
+  it("does nothing without a known banner", async () => {
+    const { clicked, page } = fakePage([
+      { url: "https://example.com/", visible: [] },
+    ]);
+    const log: string[] = [];
+    await dismissConsent(page, (message) => log.push(message));
+    expect(clicked).toEqual([]);
+    expect(log).toEqual([]);
+  });
+});
+
+describe("removeOverlays", () => {
+  it("removes banners, overlays and the scroll lock", async () => {
+    const page = pageWithDocument(`<html><body style="overflow: hidden">
+      <main>Article</main>
+      <div id="onetrust-consent-sdk">We value your privacy</div>
+      <div class="backdrop" style="position: fixed" data-area="1000x800"></div>
+      <div class="modal" role="dialog" style="position: fixed" data-area="600x500">Subscribe!</div>
+      <div class="toast" style="position: fixed" data-area="300x80">Saved</div>
+    </body></html>`);
+    const log: string[] = [];
+    await removeOverlays(page, (message) => log.push(message));
+    const { document } = globals.window as Window;
+    expect(document.querySelector("#onetrust-consent-sdk")).toBeNull();
+    expect(document.querySelector(".backdrop")).toBeNull();
+    expect(document.querySelector(".modal")).toBeNull();
+    expect(document.querySelector(".toast")).not.toBeNull();
+    expect(document.body.style.overflow).toBe("visible");
+    expect(log).toEqual([
+      "Removed 1 consent banners and 2 overlays",
+      "Removed scroll lock",
+    ]);
+  });
+
+  it("keeps a fixed shell holding a short page", async () => {
+    const page = pageWithDocument(
+      `<body><div id="app" style="position: fixed" data-area="1000x800"><h1>Status</h1><p>All systems go.</p></div>
+      <div id="hero" style="position: fixed" data-area="1000x800"><img src="hero.jpg"></div></body>`
+    );
+    const log: string[] = [];
+    await removeOverlays(page, (message) => log.push(message));
+    const { document } = globals.window as Window;
+    expect(document.querySelector("#app")).not.toBeNull();
+    expect(document.querySelector("#hero")).not.toBeNull();
+    expect(log).toEqual([]);
+  });
+
+  it("keeps a fixed dialog holding the page's text", async () => {
+    const article = "Lorem ipsum dolor sit amet. ".repeat(100);
+    const page = pageWithDocument(
+      `<body><div id="reader" role="dialog" style="position: fixed">${article}</div></body>`
+    );
+    await removeOverlays(page, () => {
+      // Not logged
+    });
+    expect(
+      (globals.window as Window).document.querySelector("#reader")
+    ).not.toBeNull();
+  });
+});
+
+const CONSENT_PAGE = `<html><body class="has-cookie-banner">
+  <div id="CybotCookiebotDialog">Allow all cookies?</div>
+  <div class="cookie-banner">We use cookies</div>
+  <main><p>Article text</p></main>
+</body></html>`;
+
+describe("consent containers in extraction", () => {
+  it("are stripped from static HTML", () => {
+    const { html } = extractContent(CONSENT_PAGE, {
+      baseUrl: "https://example.com/",
+    });
+    expect(html).toContain("Article text");
+    expect(html).not.toContain("cookies");
+  });
+
+  it("are kept in raw mode", () => {
+    const { html } = extractContent(CONSENT_PAGE, {
+      baseUrl: "https://example.com/",
+      raw: true,
+    });
+    expect(html).toContain("Allow all cookies?");
+    expect(html).toContain("We use cookies");
+  });
+
+  it("are kept when dismissal is turned off", () => {
+    const { html } = extractContent(CONSENT_PAGE, {
+      baseUrl: "https://example.com/",
+      dismissConsent: false,
+      excludeSelectors: ["#CybotCookiebotDialog"],
+    });
+    expect(html).not.toContain("Allow all cookies?");
+    expect(html).toContain("We use cookies");
+  });
+});
@@ -0,0 +1,223 @@
+import type { Frame, Page } from "playwright";
+
+/** How long a consent button gets to respond, and the banner to go away */
+const CLICK_TIMEOUT_MS = 2000;
+/** Empty fixed elements covering this share of the viewport are backdrops */
+const BACKDROP_MIN_COVERAGE = 0.5;
+/** Fixed dialogs are removed whatever their size */
+const MODAL_SELECTOR = 'dialog, [role="dialog"], [aria-modal="true"]';
+/** Dialogs with more text than this are likely the page itself */
+const MODAL_MAX_TEXT = 2000;
+/** A backdrop showing any of these is content, e.g. a hero or a player */
+const MEDIA_SELECTOR = "img, picture, video, iframe, canvas, svg";
+
+/**
+ * First-layer "reject all" buttons of common consent-management platforms.
+ * Tried before the accept buttons, since rejecting loads fewer scripts.
+ */
+const REJECT_BUTTONS = [
+  "#onetrust-reject-all-handler",
+  "#CybotCookiebotDialogBodyButtonDecline",
+  "#didomi-notice-disagree-button",
+  '[data-testid="uc-deny-all-button"]',
+  ".osano-cm-deny",
+  ".cky-btn-reject",
+  ".cmplz-deny",
+  ".iubenda-cs-reject-btn",
+  ".fc-cta-do-not-consent",
+];
+
+const ACCEPT_BUTTONS = [
+  "#onetrust-accept-btn-handler",
+  "#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll",
+  "#CybotCookiebotDialogBodyButtonAccept",
+  '.qc-cmp2-summary-buttons button[mode="primary"]',
+  "#didomi-notice-agree-button",
+  '[data-testid="uc-accept-all-button"]',
+  "#truste-consent-button",
+  ".osano-cm-accept-all",
+  ".cky-btn-accept",
+  ".cmplz-accept",
+  ".iubenda-cs-accept-btn",
+  ".fc-cta-consent",
+  "#cn-accept-cookie",
+  "#BorlabsCookieBox a[data-cookie-accept]",
+];
+
+/**
+ * Consent banners and walls of common platforms, plus conventionally named
+ * ones. Stripped before extraction in every mode; they are never content.
+ * Generic names match whole ids and classes only, so a `has-cookie-banner`
+ * class on `<body>` is left alone.
+ */
+export const CONSENT_SELECTORS = [
+  "#onetrust-consent-sdk",
+  "#CybotCookiebotDialog",
+  "#CybotCookiebotDialogBodyUnderlay",
+  ".qc-cmp2-container",
+  "#qc-cmp2-container",
+  "#didomi-host",
+  "#usercentrics-root",
+  '[id^="sp_message_container"]',
+  "#truste-consent-track",
+  ".truste_box_overlay",
+  "#consent_blackbar",
+  ".osano-cm-window",
+  ".cky-consent-container",
+  ".cky-overlay",
+  "#cmplz-cookiebanner-container",
+  "#iubenda-cs-banner",
+  ".fc-consent-root",
+  "#cookie-notice",
+  "#BorlabsCookieBox",
+  "#cookie-law-info-bar",
+  "#cookie-banner",
+  ".cookie-banner",
+  "#cookie-consent",
+  ".cookie-consent",
+  "#consent-banner",
+  ".consent-banner",
+];
+
+/** Clicks the first visible button from `selectors` in any frame */
+async function clickFirst(
+  page: Page,
+  selectors: string[]
+): Promise<Frame | undefined> {
+  const selector = selectors.join(", ");
+  // Some platforms, e.g. Sourcepoint, render the banner in an iframe
+  for (const frame of page.frames()) {
+    const button = frame.locator(selector).first();
+    try {
+      if (!(await button.isVisible())) {
+        continue;
+      }
+      await button.click({ timeout: CLICK_TIMEOUT_MS });
+    } catch {
+      // Detached or covered; the overlay pass still removes the banner
+      continue;
+    }
+    return frame;
+  }
+  return;
+}
+
+/**
+ * Answers a consent banner from a known platform, preferring "reject all"
+ * where the first layer offers it. Waits briefly for the banner to close.
+ */
+export async function dismissConsent(
+  page: Page,
+  log: (message: string) => void
+): Promise<void> {
+  const frame =
+    (await clickFirst(page, REJECT_BUTTONS)) ??
+    (await clickFirst(page, ACCEPT_BUTTONS));
+  if (!frame) {
+    return;
+  }
+  log(
+    frame === page.mainFrame()
+      ? "Dismissed consent banner"
+      : `Dismissed consent banner in a frame from ${new URL(frame.url()).host}`
+  );
+  try {
+    await page.waitForLoadState("networkidle", { timeout: CLICK_TIMEOUT_MS });
+  } catch {
+    // A banner that reloads nothing is already gone
+  }
+}
+
+interface OverlayRemoval {
+  banners: number;
+  overlays: number;
+  scrollUnlocked: boolean;
+}
+
+/** Runs in the page; must not reference anything outside its body */
+function removeOverlaysInPage({
+  dialogs,
+  maxText,
+  media,
+  minCoverage,
+  selectors,
+}: {
+  dialogs: string;
+  maxText: number;
+  media: string;
+  minCoverage: number;
+  selectors: string;
+}): OverlayRemoval {
+  const result = { banners: 0, overlays: 0, scrollUnlocked: false };
+  for (const element of Array.from(document.querySelectorAll(selectors))) {
+    element.remove();
+    result.banners += 1;
+  }
+  const viewport = window.innerWidth * window.innerHeight;
+  for (const element of Array.from(document.querySelectorAll("body *"))) {
+    if (
+      !element.isConnected ||
+      getComputedStyle(element).position !== "fixed"
+    ) {
+      continue;
+    }
+    const text = (
+      (element as HTMLElement).innerText ??
+      element.textContent ??
+      ""
+    ).trim();
+    const isModal = element.matches(dialogs) && text.length <= maxText;
+    const { height, width } = element.getBoundingClientRect();
+    // An app shell holding even a short page has text; a backdrop has none
+    const isBackdrop =
+      !(text || element.querySelector(media)) &&
+      width * height >= viewport * minCoverage;
+    if (isModal || isBackdrop) {
+      element.remove();
+      result.overlays += 1;
+    }
+  }
+  for (const element of [document.documentElement, document.body]) {
+    const style = getComputedStyle(element);
+    if (style.overflow === "hidden" || style.overflowY === "hidden") {
+      element.style.setProperty("overflow", "visible", "important");
+      result.scrollUnlocked = true;
+    }
+    if (element === document.body && style.position === "fixed") {
+      element.style.setProperty("position", "static", "important");
+      result.scrollUnlocked = true;
+    }
+  }
+  return result;
+}
+
+/**
+ * Removes consent banners, fixed dialogs such as newsletter modals, empty
+ * full-screen backdrops, and the scroll lock they put on the page. Other
+ * fixed elements are kept, since some sites render in a fixed shell.
+ */
+export async function removeOverlays(
+  page: Page,
+  log: (message: string) => void
+): Promise<void> {
+  const { banners, overlays, scrollUnlocked } = await page.evaluate(
+    removeOverlaysInPage,
+    {
+      dialogs: MODAL_SELECTOR,
+      maxText: MODAL_MAX_TEXT,
+      media: MEDIA_SELECTOR,
+      minCoverage: BACKDROP_MIN_COVERAGE,
+      selectors: CONSENT_SELECTORS.join(", "),
+    }
+  );
+  const removed = [
+    banners && `${banners} consent banners`,
+    overlays && `${overlays} overlays`,
+  ].filter(Boolean);
+  if (removed.length) {
+    log(`Removed ${removed.join(" and ")}`);
+  }
+  if (scrollUnlocked) {
+    log("Removed scroll lock");
+  }
+}
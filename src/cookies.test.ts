@@ -0,0 +1,190 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type Cookie,
+  cookieHeaderFor,
+  parseCookies,
+  parseSetCookie,
+  storeCookie,
+  toPlaywrightCookies,
+} from "./cookies";
+
+const NOW = Date.parse("2026-01-01T00:00:00Z");
+const FUTURE = NOW / 1000 + 3600;
+const PAST = NOW / 1000 - 3600;
+
+const netscape = [
+  "# Netscape HTTP Cookie File",
+  `.example.com\tTRUE\t/\tFALSE\t${FUTURE}\tsite\t1`,
+  `#HttpOnly_www.example.com\tFALSE\t/account\tTRUE\t${FUTURE}\tsession\tabc`,
+  `.example.com\tTRUE\t/\tFALSE\t${PAST}\told\tx`,
+  "other.org\tFALSE\t/\tFALSE\t0\tforeign\ty",
+].join("\n");
+
+describe("parseCookies", () => {
+  it("parses Netscape files including #HttpOnly_ lines", () => {
+    const cookies = parseCookies(netscape);
+    expect(cookies.map((cookie) => cookie.name)).toEqual([
+      "site",
+      "session",
+      "old",
+      "foreign",
+    ]);
+    expect(cookies[1]).toMatchObject({
+      domain: "www.example.com",
+      hostOnly: true,
+      httpOnly: true,
+      path: "/account",
+      secure: true,
+    });
+    expect(cookies[0]).toMatchObject({
+      domain: "example.com",
+      hostOnly: false,
+    });
+    expect(cookies[3]?.expires).toBeUndefined();
+  });
+
+  it("parses Playwright storageState files", () => {
+    const cookies = parseCookies(
+      JSON.stringify({
+        cookies: [
+          {
+            domain: ".example.com",
+            expires: -1,
+            httpOnly: true,
+            name: "sid",
+            path: "/",
+            sameSite: "Strict",
+            secure: true,
+            value: "1",
+          },
+        ],
+        origins: [],
+      })
+    );
+    expect(cookies).toEqual([
+      {
+        domain: "example.com",
+        expires: undefined,
+        hostOnly: false,
+        httpOnly: true,
+        name: "sid",
+        path: "/",
+        sameSite: "Strict",
+        secure: true,
+        value: "1",
+      },
+    ]);
+  });
+
+  it("parses browser-extension exports", () => {
+    const [cookie] = parseCookies(
+      JSON.stringify([
+        {
+          domain: "www.example.com",
+          expirationDate: FUTURE,
+          hostOnly: true,
+          httpOnly: false,
+          name: "pref",
+          path: "/",
+          sameSite: "no_restriction",
+          secure: true,
+          session: false,
+          value: "dark",
+        },
+      ])
+    );
+    expect(cookie).toMatchObject({
+      expires: FUTURE,
+      hostOnly: true,
+      sameSite: "None",
+    });
+  });
+
+  it("rejects JSON in an unknown shape", () => {
+    expect(() => parseCookies('{"foo": 1}')).toThrow("Unrecognized JSON");
+  });
+});
+
+describe("cookieHeaderFor", () => {
+  const cookies = parseCookies(netscape);
+
+  it("sends only unexpired cookies matching domain, path and scheme", () => {
+    expect(
+      cookieHeaderFor(cookies, "https://www.example.com/account/x", NOW)
+    ).toBe("session=abc; site=1");
+    expect(
+      cookieHeaderFor(cookies, "http://www.example.com/account", NOW)
+    ).toBe("site=1");
+    expect(cookieHeaderFor(cookies, "https://api.example.com/", NOW)).toBe(
+      "site=1"
+    );
+    expect(
+      cookieHeaderFor(cookies, "https://www.example.com/accounting", NOW)
+    ).toBe("site=1");
+    expect(
+      cookieHeaderFor(cookies, "https://evil-example.com/", NOW)
+    ).toBeUndefined();
+  });
+});
+
+describe("parseSetCookie", () => {
+  it("scopes cookies to the responding host by default", () => {
+    expect(
+      parseSetCookie("a=1; HttpOnly", "https://www.example.com/docs/page", NOW)
+    ).toMatchObject({
+      domain: "www.example.com",
+      hostOnly: true,
+      httpOnly: true,
+      path: "/docs",
+    });
+  });
+
+  it("accepts parent domains and rejects foreign ones", () => {
+    expect(
+      parseSetCookie("a=1; Domain=.example.com", "https://www.example.com/")
+    ).toMatchObject({ domain: "example.com", hostOnly: false });
+    expect(
+      parseSetCookie("a=1; Domain=other.org", "https://www.example.com/")
+    ).toBeNull();
+  });
+
+  it("prefers Max-Age over Expires", () => {
+    const cookie = parseSetCookie(
+      "a=1; Max-Age=60; Expires=Thu, 01 Jan 2099 00:00:00 GMT",
+      "https://example.com/",
+      NOW
+    );
+    expect(cookie?.expires).toBe(NOW / 1000 + 60);
+  });
+});
+
+describe("storeCookie", () => {
+  it("replaces matching cookies and deletes on expiry", () => {
+    const jar: Cookie[] = [];
+    storeCookie(jar, parseSetCookie("a=1", "https://example.com/") as Cookie);
+    storeCookie(jar, parseSetCookie("a=2", "https://example.com/") as Cookie);
+    expect(jar.map((cookie) => cookie.value)).toEqual(["2"]);
+    storeCookie(
+      jar,
+      parseSetCookie("a=; Max-Age=0", "https://example.com/") as Cookie
+    );
+    expect(jar).toEqual([]);
+  });
+});
+
+describe("toPlaywrightCookies", () => {
+  it("drops expired cookies and keeps scope flags", () => {
+    const cookies = toPlaywrightCookies(parseCookies(netscape), NOW);
+    expect(cookies.map((cookie) => cookie.name)).toEqual([
+      "site",
+      "session",
+      "foreign",
+    ]);
+    expect(cookies[0]?.domain).toBe(".example.com");
+    expect(cookies[1]).toMatchObject({
+      domain: "www.example.com",
+      httpOnly: true,
+    });
+    expect(cookies[2]?.expires).toBe(-1);
+  });
+});
@@ -0,0 +1,367 @@
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+
+const LINE_BREAK_RE = /\r?\n/;
+const HTTP_ONLY_PREFIX = "#HttpOnly_";
+const LEADING_DOT_RE = /^\./;
+
+type SameSite = "Strict" | "Lax" | "None";
+
+/** A cookie with the scope it applies to */
+export interface Cookie {
+  name: string;
+  value: string;
+  /** Lowercase domain without a leading dot */
+  domain: string;
+  /** Sent to `domain` only, not its subdomains */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** Expiry in Unix seconds; session cookies have none */
+  expires?: number;
+  sameSite?: SameSite;
+}
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(LEADING_DOT_RE, "");
+}
+
+function normalizeSameSite(value: unknown): SameSite | undefined {
+  switch (String(value).toLowerCase()) {
+    case "strict":
+      return "Strict";
+    case "lax":
+      return "Lax";
+    case "none":
+    case "no_restriction":
+      return "None";
+    default:
+      return;
+  }
+}
+
+/** A positive expiry in seconds, or undefined for session cookies */
+function expiryFrom(value: unknown): number | undefined {
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+}
+
+/**
+ * Parses a Netscape cookies.txt file as written by curl, wget and browser
+ * extensions. `#HttpOnly_` lines are cookies, other `#` lines are comments.
+ */
+export function parseNetscapeCookies(text: string): Cookie[] {
+  const cookies: Cookie[] = [];
+  for (const rawLine of text.split(LINE_BREAK_RE)) {
+    const httpOnly = rawLine.startsWith(HTTP_ONLY_PREFIX);
+    const line = httpOnly ? rawLine.slice(HTTP_ONLY_PREFIX.length) : rawLine;
+    if (!line.trim() || line.startsWith("#")) {
+      continue;
+    }
+    const [domain, subdomains, path, secure, expires, name, value = ""] =
+      line.split("\t");
+    if (!(domain && path && secure && expires && name)) {
+      continue;
+    }
+    cookies.push({
+      domain: normalizeDomain(domain),
+      expires: expiryFrom(expires),
+      hostOnly: !domain.startsWith(".") && subdomains?.toUpperCase() !== "TRUE",
+      httpOnly,
+      name,
+      path,
+      secure: secure.toUpperCase() === "TRUE",
+      value: value.trimEnd(),
+    });
+  }
+  return cookies;
+}
+
+function cookieFromJson(entry: Record<string, unknown>): Cookie | null {
+  const { name, value, domain } = entry;
+  if (typeof name !== "string" || typeof domain !== "string" || !domain) {
+    return null;
+  }
+  return {
+    domain: normalizeDomain(domain),
+    // storageState uses `expires` (-1 for session cookies); extension
+    // exports use `expirationDate` and a `session` flag
+    expires: entry.session
+      ? undefined
+      : expiryFrom(entry.expires ?? entry.expirationDate),
+    hostOnly:
+      typeof entry.hostOnly === "boolean"
+        ? entry.hostOnly
+        : !domain.startsWith("."),
+    httpOnly: entry.httpOnly === true,
+    name,
+    path: typeof entry.path === "string" && entry.path ? entry.path : "/",
+    sameSite: normalizeSameSite(entry.sameSite),
+    secure: entry.secure === true,
+    value: typeof value === "string" ? value : String(value ?? ""),
+  };
+}
+
+/**
+ * Parses cookies from JSON: a Playwright `storageState` file
+ * (`{ "cookies": [...] }`) or a browser-extension export (an array of
+ * cookies, as written by Cookie-Editor or EditThisCookie).
+ */
+export function parseJsonCookies(data: unknown): Cookie[] {
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { cookies?: unknown } | null)?.cookies;
+  if (!Array.isArray(entries)) {
+    throw new Error(
+      'Unrecognized JSON cookies: expected an array of cookies or a storageState object with "cookies"'
+    );
+  }
+  return entries
+    .filter((entry): entry is Record<string, unknown> =>
+      Boolean(entry && typeof entry === "object")
+    )
+    .map(cookieFromJson)
+    .filter((cookie): cookie is Cookie => cookie !== null);
+}
+
+/** Parses a cookies file in Netscape, storageState or extension JSON format */
+export function parseCookies(content: string): Cookie[] {
+  const trimmed = content.trim();
+  if (!(trimmed.startsWith("{") || trimmed.startsWith("["))) {
+    return parseNetscapeCookies(content);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(trimmed);
+  } catch (error) {
+    throw new Error(`Invalid JSON cookies: ${String(error)}`, {
+      cause: error,
+    });
+  }
+  return parseJsonCookies(data);
+}
+
+export function loadCookiesFile(cookiesPath: string): Cookie[] {
+  let content: string;
+  try {
+    content = readFileSync(cookiesPath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Unable to read cookies file "${basename(cookiesPath)}": ${String(error)}`,
+      { cause: error }
+    );
+  }
+  try {
+    return parseCookies(content);
+  } catch (error) {
+    throw new Error(
+      `Unable to parse cookies file "${basename(cookiesPath)}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+}
+
+export function isCookieExpired(cookie: Cookie, now = Date.now()): boolean {
+  return cookie.expires !== undefined && cookie.expires * 1000 <= now;
+}
+
+function domainMatches(host: string, cookie: Cookie): boolean {
+  if (cookie.hostOnly) {
+    return host === cookie.domain;
+  }
+  return host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+}
+
+/** RFC 6265 path-match: `/docs` matches `/docs`, `/docs/` and `/docs/a` */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) {
+    return true;
+  }
+  return (
+    requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/")
+  );
+}
+
+/**
+ * The unexpired cookies that apply to `url` by domain, path and `secure`
+ * flag, longest path first as browsers send them.
+ */
+export function cookiesForUrl(
+  cookies: Cookie[],
+  url: string,
+  now = Date.now()
+): Cookie[] {
+  const { hostname, pathname, protocol } = new URL(url);
+  const host = hostname.toLowerCase();
+  return cookies
+    .filter(
+      (cookie) =>
+        !isCookieExpired(cookie, now) &&
+        domainMatches(host, cookie) &&
+        pathMatches(pathname || "/", cookie.path) &&
+        (!cookie.secure || protocol === "https:")
+    )
+    .sort((a, b) => b.path.length - a.path.length);
+}
+
+/** The `Cookie` header for `url`, if any cookie applies */
+export function cookieHeaderFor(
+  cookies: Cookie[],
+  url: string,
+  now = Date.now()
+): string | undefined {
+  const matching = cookiesForUrl(cookies, url, now);
+  return matching.length
+    ? matching.map((cookie) => `${cookie.name}=${cookie.value}`).join("; ")
+    : undefined;
+}
+
+/** The directory of the request path, used when Set-Cookie has no Path */
+function defaultPath(pathname: string): string {
+  const lastSlash = pathname.lastIndexOf("/");
+  return lastSlash > 0 ? pathname.slice(0, lastSlash) : "/";
+}
+
+function applyAttribute(
+  cookie: Cookie,
+  attribute: string,
+  value: string,
+  now: number
+): boolean {
+  switch (attribute) {
+    case "domain": {
+      const domain = normalizeDomain(value);
+      if (!domain) {
+        return true;
+      }
+      // Servers may only widen a cookie to a parent domain of their own host
+      if (!(cookie.domain === domain || cookie.domain.endsWith(`.${domain}`))) {
+        return false;
+      }
+      cookie.domain = domain;
+      cookie.hostOnly = false;
+      return true;
+    }
+    case "path":
+      cookie.path = value.startsWith("/") ? value : cookie.path;
+      return true;
+    case "expires": {
+      const date = Date.parse(value);
+      if (!Number.isNaN(date)) {
+        cookie.expires = date / 1000;
+      }
+      return true;
+    }
+    case "max-age": {
+      const seconds = Number(value);
+      if (Number.isInteger(seconds)) {
+        cookie.expires = seconds > 0 ? now / 1000 + seconds : 0;
+      }
+      return true;
+    }
+    case "secure":
+      cookie.secure = true;
+      return true;
+    case "httponly":
+      cookie.httpOnly = true;
+      return true;
+    case "samesite":
+      cookie.sameSite = normalizeSameSite(value);
+      return true;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parses a `Set-Cookie` header received from `requestUrl`. Returns null for
+ * malformed cookies and for a `Domain` the responding host may not set.
+ */
+export function parseSetCookie(
+  header: string,
+  requestUrl: string,
+  now = Date.now()
+): Cookie | null {
+  const [pair = "", ...attributes] = header.split(";");
+  const equals = pair.indexOf("=");
+  const name = equals > 0 ? pair.slice(0, equals).trim() : "";
+  if (!name) {
+    return null;
+  }
+  const { hostname, pathname } = new URL(requestUrl);
+  const cookie: Cookie = {
+    domain: hostname.toLowerCase(),
+    hostOnly: true,
+    httpOnly: false,
+    name,
+    path: defaultPath(pathname),
+    secure: false,
+    value: pair.slice(equals + 1).trim(),
+  };
+  // Max-Age wins over Expires regardless of order
+  const ordered = [...attributes].sort(
+    (a, b) =>
+      Number(a.trim().toLowerCase().startsWith("max-age")) -
+      Number(b.trim().toLowerCase().startsWith("max-age"))
+  );
+  for (const attribute of ordered) {
+    const equalsAt = attribute.indexOf("=");
+    const key = (equalsAt === -1 ? attribute : attribute.slice(0, equalsAt))
+      .trim()
+      .toLowerCase();
+    const value = equalsAt === -1 ? "" : attribute.slice(equalsAt + 1).trim();
+    if (!applyAttribute(cookie, key, value, now)) {
+      return null;
+    }
+  }
+  return cookie;
+}
+
+/**
+ * Adds `cookie` to `jar`, replacing any cookie with the same name, domain and
+ * path. An already expired cookie deletes its counterpart instead.
+ */
+export function storeCookie(
+  jar: Cookie[],
+  cookie: Cookie,
+  now = Date.now()
+): void {
+  const index = jar.findIndex(
+    (existing) =>
+      existing.name === cookie.name &&
+      existing.domain === cookie.domain &&
+      existing.path === cookie.path
+  );
+  if (index !== -1) {
+    jar.splice(index, 1);
+  }
+  if (!isCookieExpired(cookie, now)) {
+    jar.push(cookie);
+  }
+}
+
+/**
+ * Cookies in the shape Playwright's `addCookies` takes. Expired cookies are
+ * dropped; domain cookies get the leading dot that extends them to
+ * subdomains.
+ */
+export function toPlaywrightCookies(cookies: Cookie[], now = Date.now()) {
+  return cookies
+    .filter((cookie) => !isCookieExpired(cookie, now))
+    .map((cookie) => ({
+      domain: cookie.hostOnly ? cookie.domain : `.${cookie.domain}`,
+      expires: cookie.expires ?? -1,
+      httpOnly: cookie.httpOnly,
+      name: cookie.name,
+      path: cookie.path,
+      // Chromium rejects SameSite=None without Secure
+      sameSite:
+        cookie.sameSite === "None" && !cookie.secure
+          ? ("Lax" as const)
+          : (cookie.sameSite ?? ("Lax" as const)),
+      secure: cookie.secure,
+      value: cookie.value,
+    }));
+}
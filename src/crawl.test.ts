@@ -0,0 +1,157 @@
+import { describe, expect, it } from "bun:test";
+import {
+  claimMirrorPath,
+  crawl,
+  mirrorPathForUrl,
+  shouldFollow,
+} from "./crawl";
+import { globToRegExp } from "./utils";
+
+const ORIGINS = new Set(["https://docs.example.com"]);
+
+describe("globToRegExp", () => {
+  it("matches a single path segment with *", () => {
+    expect(globToRegExp("/docs/*").test("/docs/intro")).toBe(true);
+    expect(globToRegExp("/docs/*").test("/docs/a/b")).toBe(false);
+  });
+
+  it("matches across segments with **", () => {
+    expect(globToRegExp("/docs/**").test("/docs/a/b")).toBe(true);
+  });
+
+  it("escapes regex characters", () => {
+    expect(globToRegExp("/a.html").test("/aXhtml")).toBe(false);
+  });
+});
+
+describe("shouldFollow", () => {
+  it("rejects other origins and static assets", () => {
+    expect(shouldFollow("https://other.com/docs", ORIGINS, {})).toBe(false);
+    expect(shouldFollow("https://docs.example.com/logo.png", ORIGINS, {})).toBe(
+      false
+    );
+    expect(shouldFollow("https://docs.example.com/guide", ORIGINS, {})).toBe(
+      true
+    );
+  });
+
+  it("applies include and exclude globs", () => {
+    const options = { include: ["/guide/**"], exclude: ["/guide/old/**"] };
+    expect(
+      shouldFollow("https://docs.example.com/guide/a", ORIGINS, options)
+    ).toBe(true);
+    expect(
+      shouldFollow("https://docs.example.com/guide/old/a", ORIGINS, options)
+    ).toBe(false);
+    expect(
+      shouldFollow("https://docs.example.com/blog", ORIGINS, options)
+    ).toBe(false);
+  });
+});
+
+describe("mirrorPathForUrl", () => {
+  it("mirrors the URL path as markdown files", () => {
+    expect(mirrorPathForUrl("https://a.com/")).toBe("index.md");
+    expect(mirrorPathForUrl("https://a.com/docs/")).toBe("docs/index.md");
+    expect(mirrorPathForUrl("https://a.com/docs/intro.html")).toBe(
+      "docs/intro.md"
+    );
+  });
+
+  it("never escapes the output directory", () => {
+    expect(mirrorPathForUrl("https://a.com/%2e%2e/%2e%2e/etc")).toBe("etc.md");
+  });
+});
+
+describe("claimMirrorPath", () => {
+  it("suffixes a path another page already claimed", () => {
+    const taken = new Set<string>();
+    const claim = (url: string) => claimMirrorPath([url, url], taken);
+    expect(claim("https://a.com/docs")).toBe("docs.md");
+    expect(claim("https://a.com/docs.html")).toBe("docs-2.md");
+    expect(claim("https://a.com/docs.htm")).toBe("docs-3.md");
+    expect(claim("https://a.com/a/")).toBe("a/index.md");
+    expect(claim("https://a.com/a/index.html")).toBe("a/index-2.md");
+  });
+
+  it("prefers the requested URL's path over a suffix", () => {
+    const taken = new Set(["docs/intro.md"]);
+    expect(
+      claimMirrorPath(
+        ["https://a.com/docs/intro", "https://a.com/docs/start"],
+        taken
+      )
+    ).toBe("docs/start.md");
+  });
+});
+
+describe("crawl", () => {
+  const site: Record<string, string[]> = {
+    "https://docs.example.com/": [
+      "https://docs.example.com/a",
+      "https://docs.example.com/b#section",
+      "https://other.com/",
+    ],
+    "https://docs.example.com/a": [
+      "https://docs.example.com/",
+      "https://docs.example.com/a/deep",
+    ],
+    "https://docs.example.com/b": ["https://docs.example.com/b/deep"],
+    "https://docs.example.com/a/deep": ["https://docs.example.com/a/deeper"],
+  };
+
+  const visitSite = (visited: string[]) => (page: { url: string }) => {
+    visited.push(page.url);
+    return Promise.resolve({
+      finalUrl: page.url,
+      links: site[page.url] ?? [],
+    });
+  };
+
+  it("follows same-origin links breadth-first up to depth", async () => {
+    const visited: string[] = [];
+    await crawl(
+      "https://docs.example.com/",
+      { depth: 1, maxPages: 10, concurrency: 1 },
+      visitSite(visited)
+    );
+    expect(visited).toEqual([
+      "https://docs.example.com/",
+      "https://docs.example.com/a",
+      "https://docs.example.com/b",
+    ]);
+  });
+
+  it("follows links on the origin the seed redirected to", async () => {
+    const visited: string[] = [];
+    await crawl(
+      "http://example.com/",
+      { depth: 1, maxPages: 10, concurrency: 1 },
+      (page) => {
+        visited.push(page.url);
+        return Promise.resolve(
+          page.url === "http://example.com/"
+            ? {
+                finalUrl: "https://www.example.com/",
+                links: ["https://www.example.com/guide", "https://other.com/"],
+              }
+            : { finalUrl: page.url, links: [] }
+        );
+      }
+    );
+    expect(visited).toEqual([
+      "http://example.com/",
+      "https://www.example.com/guide",
+    ]);
+  });
+
+  it("stops at maxPages", async () => {
+    const visited: string[] = [];
+    await crawl(
+      "https://docs.example.com/",
+      { depth: 5, maxPages: 4, concurrency: 2 },
+      visitSite(visited)
+    );
+    expect(visited).toHaveLength(4);
+  });
+});
@@ -0,0 +1,199 @@
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { mapWithConcurrency } from "./batch";
+import { globToRegExp } from "./utils";
+
+export interface CrawlOptions {
+  depth: number;
+  maxPages: number;
+  concurrency: number;
+  include?: string[];
+  exclude?: string[];
+}
+
+export interface CrawlVisit {
+  url: string;
+  depth: number;
+}
+
+export interface CrawledPage {
+  finalUrl: string;
+  links: string[];
+}
+
+const ASSET_EXTENSION_RE =
+  /\.(?:png|jpe?g|gif|svg|webp|ico|css|js|mjs|json|xml|zip|gz|tgz|tar|mp3|mp4|webm|woff2?|ttf|eot)$/i;
+const UNSAFE_SEGMENT_CHARS_RE = /[^a-zA-Z0-9._-]+/g;
+const HTML_EXTENSION_RE = /\.(?:html?|php|aspx?)$/i;
+
+/**
+ * Patterns containing `://` are matched against the full URL; all others are
+ * matched against the path plus query string.
+ */
+function matchesAny(url: URL, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const target = pattern.includes("://")
+      ? url.toString()
+      : `${url.pathname}${url.search}`;
+    return globToRegExp(pattern).test(target);
+  });
+}
+
+/**
+ * Decides whether a discovered link should be crawled: on one of the seed's
+ * `origins`, not an obvious static asset, and allowed by include/exclude globs.
+ */
+export function shouldFollow(
+  link: string,
+  origins: ReadonlySet<string>,
+  options: Pick<CrawlOptions, "include" | "exclude">
+): boolean {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return false;
+  }
+  if (!origins.has(url.origin)) {
+    return false;
+  }
+  if (ASSET_EXTENSION_RE.test(url.pathname)) {
+    return false;
+  }
+  if (options.include?.length && !matchesAny(url, options.include)) {
+    return false;
+  }
+  if (options.exclude?.length && matchesAny(url, options.exclude)) {
+    return false;
+  }
+  return true;
+}
+
+function canonicalize(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Maps a page URL to a relative markdown path that mirrors the site's
+ * structure: `/` → `index.md`, `/docs/` → `docs/index.md`,
+ * `/docs/intro.html` → `docs/intro.md`. Query strings add a hash suffix.
+ */
+export function mirrorPathForUrl(url: string): string {
+  const parsed = new URL(url);
+  const segments = parsed.pathname
+    .split("/")
+    .map((segment) => {
+      let decoded = segment;
+      try {
+        decoded = decodeURIComponent(segment);
+      } catch {
+        // Keep the raw segment
+      }
+      return decoded.replace(UNSAFE_SEGMENT_CHARS_RE, "-");
+    })
+    .filter(
+      (segment) => segment.length > 0 && segment !== "." && segment !== ".."
+    );
+
+  if (parsed.pathname.endsWith("/") || segments.length === 0) {
+    segments.push("index");
+  }
+
+  let name = (segments.pop() as string).replace(HTML_EXTENSION_RE, "");
+  if (parsed.search) {
+    const hash = createHash("sha256")
+      .update(parsed.search)
+      .digest("hex")
+      .slice(0, 8);
+    name = `${name}-${hash}`;
+  }
+  return join(...segments, `${name}.md`);
+}
+
+/**
+ * Picks an output path for a page that no earlier page has claimed: the
+ * mirror path of the first free URL in `urls` (e.g. the final URL, then the
+ * requested one), else the first with a `-2`, `-3`, … suffix. `/docs` and
+ * `/docs.html`, or `/a/` and `/a/index.html`, thus get separate files.
+ */
+export function claimMirrorPath(urls: string[], taken: Set<string>): string {
+  const paths = urls.map((url) => mirrorPathForUrl(url));
+  let path = paths.find((candidate) => !taken.has(candidate));
+  if (!path) {
+    const base = (paths[0] as string).slice(0, -".md".length);
+    for (let suffix = 2; !path || taken.has(path); suffix += 1) {
+      path = `${base}-${suffix}.md`;
+    }
+  }
+  taken.add(path);
+  return path;
+}
+
+function nextFrontier(
+  level: CrawlVisit[],
+  results: PromiseSettledResult<CrawledPage>[],
+  seen: Set<string>,
+  origins: Set<string>,
+  options: CrawlOptions
+): CrawlVisit[] {
+  for (const [index, result] of results.entries()) {
+    if (result.status !== "fulfilled") {
+      continue;
+    }
+    seen.add(canonicalize(result.value.finalUrl));
+    // A seed redirected to www or https crawls the site it landed on
+    if ((level[index] as CrawlVisit).depth === 0) {
+      origins.add(new URL(result.value.finalUrl).origin);
+    }
+  }
+
+  const next: CrawlVisit[] = [];
+  for (const [index, result] of results.entries()) {
+    const page = level[index] as CrawlVisit;
+    if (result.status === "rejected" || page.depth >= options.depth) {
+      continue;
+    }
+    for (const link of result.value.links) {
+      const canonical = canonicalize(link);
+      if (seen.has(canonical) || !shouldFollow(canonical, origins, options)) {
+        continue;
+      }
+      seen.add(canonical);
+      next.push({ url: canonical, depth: page.depth + 1 });
+    }
+  }
+  return next;
+}
+
+/**
+ * Breadth-first crawl from `seedUrl`. `visit` converts one page and returns
+ * its final URL and the links found in its content; pages are visited level
+ * by level with at most `concurrency` in flight, and the crawl stops at
+ * `depth` or once `maxPages` pages have been visited. Redirect targets count
+ * as seen, links may stay on the seed's origin or the one it redirected to,
+ * and a failing `visit` is not followed.
+ */
+export async function crawl(
+  seedUrl: string,
+  options: CrawlOptions,
+  visit: (page: CrawlVisit) => Promise<CrawledPage>
+): Promise<void> {
+  const origins = new Set([new URL(seedUrl).origin]);
+  const seen = new Set<string>([canonicalize(seedUrl)]);
+  let frontier: CrawlVisit[] = [{ url: seedUrl, depth: 0 }];
+  let visited = 0;
+
+  while (frontier.length > 0 && visited < options.maxPages) {
+    const level = frontier.slice(0, options.maxPages - visited);
+    visited += level.length;
+
+    const results = await mapWithConcurrency(level, options.concurrency, visit);
+    frontier = nextFrontier(level, results, seen, origins, options);
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+import {
+  convertDocument,
+  documentConverterFor,
+  MAX_DOCUMENT_CHARS,
+  prettyXml,
+} from "./documents";
+
+describe("documentConverterFor", () => {
+  it("goes by content type first", () => {
+    expect(documentConverterFor("application/json", "https://x.test/a")).toBe(
+      "json"
+    );
+    expect(
+      documentConverterFor(
+        "application/ld+json; charset=utf-8",
+        "https://x.test/"
+      )
+    ).toBe("json");
+    expect(documentConverterFor("application/rss+xml", "https://x.test/")).toBe(
+      "xml"
+    );
+    expect(documentConverterFor("text/plain", "https://x.test/notes")).toBe(
+      "text"
+    );
+  });
+
+  it("uses source extensions behind generic types", () => {
+    const url = "https://raw.example.com/repo/main/src/lib.rs";
+    expect(documentConverterFor("text/plain; charset=utf-8", url)).toBe(
+      "source"
+    );
+    expect(documentConverterFor(undefined, "file:///tmp/data.json")).toBe(
+      "json"
+    );
+  });
+
+  it("leaves HTML to the HTML pipeline", () => {
+    expect(documentConverterFor("text/html", "https://x.test/index.php")).toBe(
+      undefined
+    );
+    expect(
+      documentConverterFor("application/xhtml+xml", "https://x.test/")
+    ).toBe(undefined);
+    expect(documentConverterFor("text/plain", "https://x.test/a.html")).toBe(
+      undefined
+    );
+    expect(documentConverterFor(undefined, "file:///tmp/page")).toBe(undefined);
+  });
+});
+
+describe("convertDocument", () => {
+  it("passes plain text through", () => {
+    expect(
+      convertDocument("text", "line one\n# not a heading", "https://x.test/")
+    ).toEqual({ markdown: "line one\n# not a heading", metadata: {} });
+  });
+
+  it("pretty-prints JSON in a fence longer than any inside", () => {
+    const { markdown, metadata } = convertDocument(
+      "json",
+      '{"a":["```"]}',
+      "https://x.test/api/data.json"
+    );
+    expect(markdown).toBe('````json\n{\n  "a": [\n    "```"\n  ]\n}\n````');
+    expect(metadata.title).toBe("data.json");
+  });
+
+  it("keeps invalid JSON as served", () => {
+    expect(convertDocument("json", "{oops", "https://x.test/").markdown).toBe(
+      "```json\n{oops\n```"
+    );
+  });
+
+  it("fences source with the extension's language", () => {
+    expect(
+      convertDocument("source", "x = 1\n", "https://x.test/a.py").markdown
+    ).toBe("```python\nx = 1\n```");
+  });
+
+  it("truncates oversized documents at a line break", () => {
+    const line = `${"x".repeat(99)}\n`;
+    const { markdown } = convertDocument(
+      "source",
+      line.repeat(MAX_DOCUMENT_CHARS / 50),
+      "https://x.test/big.go"
+    );
+    expect(markdown.length).toBeLessThan(MAX_DOCUMENT_CHARS + 100);
+    // The cut drops the newline it falls on along with everything after it
+    expect(markdown.slice(-50)).toEndWith(
+      `x\n… truncated, ${MAX_DOCUMENT_CHARS + 1} more characters\n\`\`\``
+    );
+  });
+});
+
+describe("prettyXml", () => {
+  it("indents nested elements and keeps text-only elements inline", () => {
+    expect(
+      prettyXml(
+        '<?xml version="1.0"?><feed><!-- c --><entry id="1"><title>A &amp; B</title><link href="/a"/></entry></feed>'
+      )
+    ).toBe(
+      [
+        '<?xml version="1.0"?>',
+        "<feed>",
+        "  <!-- c -->",
+        '  <entry id="1">',
+        "    <title>A &amp; B</title>",
+        '    <link href="/a"/>',
+        "  </entry>",
+        "</feed>",
+      ].join("\n")
+    );
+  });
+
+  it("keeps CDATA intact", () => {
+    expect(prettyXml("<a><![CDATA[<b>]]></a>")).toBe(
+      "<a>\n  <![CDATA[<b>]]>\n</a>"
+    );
+  });
+});
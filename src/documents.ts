@@ -0,0 +1,239 @@
+import type { CacheMetadata } from "./cache";
+
+const JSON_CONTENT_TYPE_RE = /^(?:application|text)\/(?:[\w.-]+\+)?json\b/i;
+const XML_CONTENT_TYPE_RE = /^(?:application|text|image)\/(?:[\w.-]+\+)?xml\b/i;
+const XHTML_CONTENT_TYPE_RE = /^application\/xhtml\+xml\b/i;
+const TEXT_CONTENT_TYPE_RE = /^text\/plain\b/i;
+/** Types servers commonly use for source files, alongside `text/plain` */
+const SOURCE_CONTENT_TYPE_RE =
+  /^(?:text\/(?:plain|x-[\w.-]+|javascript|css)|application\/(?:octet-stream|(?:x-)?javascript|typescript|x-[\w.-]+))\b/i;
+const EXTENSION_RE = /\.([\w+-]+)$/;
+const HTML_EXTENSION_RE = /^(?:html?|xhtml)$/;
+const TRAILING_NEWLINES_RE = /\n+$/;
+const BACKTICK_RUN_RE = /`{3,}/g;
+const XML_TOKEN_RE =
+  /<!\[CDATA\[[\s\S]*?\]\]>|<!--[\s\S]*?-->|<[?!][^>]*>|<\/[^>]+>|<[^>]+\/>|<[^>]+>|[^<]+/g;
+const XML_NAME_RE = /^<\/?([^\s/>]+)/;
+
+/** Pretty-printed JSON and XML, and source files, are cut off past this */
+export const MAX_DOCUMENT_CHARS = 100_000;
+
+/** Converters for text responses that are not HTML */
+export type DocumentConverter = "text" | "json" | "xml" | "source";
+
+/** Any converter that replaces the HTML pipeline, as named in `strategy` */
+export type ContentConverter = DocumentConverter | "pdf";
+
+/** Fence languages by file extension */
+const SOURCE_LANGUAGES: Record<string, string> = {
+  bash: "bash",
+  c: "c",
+  cc: "cpp",
+  cjs: "javascript",
+  clj: "clojure",
+  cpp: "cpp",
+  cs: "csharp",
+  css: "css",
+  dart: "dart",
+  dockerfile: "dockerfile",
+  ex: "elixir",
+  exs: "elixir",
+  go: "go",
+  gradle: "groovy",
+  graphql: "graphql",
+  h: "c",
+  hpp: "cpp",
+  hs: "haskell",
+  ini: "ini",
+  java: "java",
+  jl: "julia",
+  js: "javascript",
+  jsx: "jsx",
+  kt: "kotlin",
+  kts: "kotlin",
+  lua: "lua",
+  m: "objectivec",
+  mjs: "javascript",
+  mts: "typescript",
+  pl: "perl",
+  proto: "protobuf",
+  ps1: "powershell",
+  py: "python",
+  r: "r",
+  rb: "ruby",
+  rs: "rust",
+  scala: "scala",
+  scss: "scss",
+  sh: "bash",
+  sql: "sql",
+  swift: "swift",
+  toml: "toml",
+  ts: "typescript",
+  tsx: "tsx",
+  vue: "vue",
+  yaml: "yaml",
+  yml: "yaml",
+  zig: "zig",
+  zsh: "bash",
+};
+
+/** Last path segment of a URL, e.g. `main.rs` */
+function fileName(url: string): string | undefined {
+  try {
+    const name = new URL(url).pathname.split("/").pop();
+    return name ? decodeURIComponent(name) : undefined;
+  } catch {
+    return;
+  }
+}
+
+function sourceLanguage(url: string): string | undefined {
+  const extension = EXTENSION_RE.exec(fileName(url) ?? "")?.[1];
+  return extension ? SOURCE_LANGUAGES[extension.toLowerCase()] : undefined;
+}
+
+/**
+ * Picks the converter for a response, or undefined for HTML and anything
+ * else the HTML pipeline handles. A known source extension wins over a
+ * generic type such as `text/plain`, since raw file hosts serve code that
+ * way. Local files have no content type and go by extension alone.
+ */
+export function documentConverterFor(
+  contentType: string | undefined,
+  url: string
+): DocumentConverter | undefined {
+  const type = contentType?.trim() ?? "";
+  const extension = EXTENSION_RE.exec(fileName(url) ?? "")?.[1]?.toLowerCase();
+  if (XHTML_CONTENT_TYPE_RE.test(type)) {
+    return;
+  }
+  if (JSON_CONTENT_TYPE_RE.test(type)) {
+    return "json";
+  }
+  if (XML_CONTENT_TYPE_RE.test(type)) {
+    return "xml";
+  }
+  if (
+    (type && !SOURCE_CONTENT_TYPE_RE.test(type)) ||
+    HTML_EXTENSION_RE.test(extension ?? "")
+  ) {
+    return;
+  }
+  if (extension === "json") {
+    return "json";
+  }
+  if (extension === "xml") {
+    return "xml";
+  }
+  if (sourceLanguage(url)) {
+    return "source";
+  }
+  if (TEXT_CONTENT_TYPE_RE.test(type) || extension === "txt") {
+    return "text";
+  }
+}
+
+/** Cuts text at the last line break before the cap and says so */
+function truncate(text: string): string {
+  if (text.length <= MAX_DOCUMENT_CHARS) {
+    return text;
+  }
+  const cut = text.lastIndexOf("\n", MAX_DOCUMENT_CHARS);
+  const kept = text.slice(0, cut > 0 ? cut : MAX_DOCUMENT_CHARS);
+  const omitted = text.length - kept.length;
+  return `${kept}\n… truncated, ${omitted} more characters`;
+}
+
+/** A fenced block whose fence is longer than any backtick run inside */
+function fenced(code: string, language = ""): string {
+  const longest = Math.max(
+    2,
+    ...Array.from(code.matchAll(BACKTICK_RUN_RE), (match) => match[0].length)
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}${language}\n${code.replace(TRAILING_NEWLINES_RE, "")}\n${fence}`;
+}
+
+function prettyJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    // Invalid JSON is shown as served
+    return text.trim();
+  }
+}
+
+/**
+ * Re-indents XML two spaces per level. Elements holding only text stay on
+ * one line; comments, CDATA and declarations are kept verbatim.
+ */
+export function prettyXml(text: string): string {
+  const tokens = (text.match(XML_TOKEN_RE) ?? [])
+    .map((token) => (token.startsWith("<") ? token : token.trim()))
+    .filter(Boolean);
+  const lines: string[] = [];
+  let depth = 0;
+  for (let index = 0; index < tokens.length; index += 1) {
+    const token = tokens[index] as string;
+    const [content, closing] = [tokens[index + 1], tokens[index + 2]];
+    const isOpening =
+      token.startsWith("<") &&
+      !(
+        token.startsWith("</") ||
+        token.startsWith("<?") ||
+        token.startsWith("<!") ||
+        token.endsWith("/>")
+      );
+    if (
+      isOpening &&
+      content &&
+      !content.startsWith("<") &&
+      closing?.startsWith("</") &&
+      XML_NAME_RE.exec(closing)?.[1] === XML_NAME_RE.exec(token)?.[1]
+    ) {
+      lines.push(`${"  ".repeat(depth)}${token}${content}${closing}`);
+      index += 2;
+      continue;
+    }
+    if (token.startsWith("</")) {
+      depth = Math.max(depth - 1, 0);
+    }
+    lines.push(`${"  ".repeat(depth)}${token}`);
+    if (isOpening) {
+      depth += 1;
+    }
+  }
+  return lines.join("\n");
+}
+
+export interface DocumentConversion {
+  markdown: string;
+  metadata: CacheMetadata;
+}
+
+/**
+ * Converts a non-HTML body: plain text passes through unchanged, JSON and
+ * XML are pretty-printed into fenced blocks, and source files are fenced
+ * with the language of their extension. Everything but plain text is
+ * capped at `MAX_DOCUMENT_CHARS` and titled with the file name.
+ */
+export function convertDocument(
+  converter: DocumentConverter,
+  text: string,
+  url: string
+): DocumentConversion {
+  if (converter === "text") {
+    return { markdown: text, metadata: {} };
+  }
+  const metadata = { title: fileName(url) };
+  if (converter === "json") {
+    return { markdown: fenced(truncate(prettyJson(text)), "json"), metadata };
+  }
+  if (converter === "xml") {
+    return { markdown: fenced(truncate(prettyXml(text)), "xml"), metadata };
+  }
+  return {
+    markdown: fenced(truncate(text), sourceLanguage(url)),
+    metadata,
+  };
+}
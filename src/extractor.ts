@@ -1,13 +1,16 @@
 import { Readability } from "@mozilla/readability";
 import { JSDOM } from "jsdom";
+import { CONSENT_SELECTORS } from "./consent";
 
-interface ExtractOptions {
+export interface ExtractOptions {
   raw?: boolean;
   excludeSelectors?: string[];
+  /** Strip known consent banners; on unless false, and never in raw mode */
+  dismissConsent?: boolean;
   baseUrl: string;
 }
 
-interface ExtractedContent {
+export interface ExtractedContent {
   html: string;
   metadata: {
     title?: string;
@@ -54,14 +57,22 @@ function extractMetadata(document: Document, source: string) {
 
 export function extractContent(
   html: string,
-  { raw = false, excludeSelectors = [], baseUrl }: ExtractOptions
+  {
+    raw = false,
+    excludeSelectors = [],
+    dismissConsent = true,
+    baseUrl,
+  }: ExtractOptions
 ): ExtractedContent {
   const dom = new JSDOM(html, { url: baseUrl });
   const { document } = dom.window;
 
-  if (excludeSelectors.length) {
-    removeNodes(document, excludeSelectors);
-  }
+  removeNodes(
+    document,
+    dismissConsent && !raw
+      ? [...CONSENT_SELECTORS, ...excludeSelectors]
+      : excludeSelectors
+  );
 
   if (raw) {
     const metadata = extractMetadata(document, baseUrl);
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "bun:test";
+import { loadUrlSource, parseUrlSource } from "./feeds";
+
+const BASE_URL = "https://example.com/sitemap.xml";
+
+const SITEMAP = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/old</loc><lastmod>2020-01-01</lastmod></url>
+  <url><loc>https://example.com/new</loc><lastmod>2025-03-01</lastmod></url>
+  <url><loc>/relative</loc></url>
+</urlset>`;
+
+const SITEMAP_INDEX = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+</sitemapindex>`;
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Blog</title>
+    <link>https://example.com/</link>
+    <item>
+      <title>First Post</title>
+      <link>https://example.com/first</link>
+      <pubDate>Mon, 06 Jan 2025 10:00:00 GMT</pubDate>
+      <dc:creator>Jane Doe</dc:creator>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Blog</title>
+  <link href="https://example.com/" />
+  <entry>
+    <title>Atom Post</title>
+    <link rel="edit" href="https://example.com/edit/1" />
+    <link rel="alternate" href="https://example.com/atom-post" />
+    <published>2024-12-24T08:00:00Z</published>
+    <updated>2025-01-02T08:00:00Z</updated>
+    <author><name>John Roe</name></author>
+  </entry>
+</feed>`;
+
+describe("parseUrlSource", () => {
+  it("parses sitemap URLs and lastmod", () => {
+    const parsed = parseUrlSource(SITEMAP, BASE_URL);
+    expect(parsed.kind).toBe("sitemap");
+    expect(parsed.entries.map((entry) => entry.url)).toEqual([
+      "https://example.com/old",
+      "https://example.com/new",
+      "https://example.com/relative",
+    ]);
+    expect(parsed.entries[1]?.modifiedAt).toBe(Date.parse("2025-03-01"));
+  });
+
+  it("lists child sitemaps of a sitemap index", () => {
+    const parsed = parseUrlSource(SITEMAP_INDEX, BASE_URL);
+    expect(parsed.kind).toBe("sitemapindex");
+    expect(parsed.sitemaps).toEqual(["https://example.com/pages.xml"]);
+  });
+
+  it("parses RSS item title, date and author", () => {
+    const [entry] = parseUrlSource(RSS, BASE_URL).entries;
+    expect(entry).toMatchObject({
+      url: "https://example.com/first",
+      title: "First Post",
+      author: "Jane Doe",
+      date: "2025-01-06",
+    });
+  });
+
+  it("parses Atom entries using the alternate link", () => {
+    const [entry] = parseUrlSource(ATOM, BASE_URL).entries;
+    expect(entry).toMatchObject({
+      url: "https://example.com/atom-post",
+      title: "Atom Post",
+      author: "John Roe",
+      date: "2024-12-24",
+    });
+  });
+
+  it("rejects unrelated documents", () => {
+    expect(() => parseUrlSource("<html></html>", BASE_URL)).toThrow();
+  });
+});
+
+describe("loadUrlSource", () => {
+  const documents: Record<string, string> = {
+    "https://example.com/sitemap.xml": SITEMAP_INDEX,
+    "https://example.com/pages.xml": SITEMAP,
+  };
+  const fetchXml = (url: string) =>
+    Promise.resolve({ body: documents[url] ?? "", finalUrl: url });
+
+  it("follows sitemap indexes", async () => {
+    const entries = await loadUrlSource(BASE_URL, fetchXml);
+    expect(entries).toHaveLength(3);
+  });
+
+  it("filters by date and keeps undated entries", async () => {
+    const entries = await loadUrlSource(BASE_URL, fetchXml, {
+      since: Date.parse("2024-01-01"),
+    });
+    expect(entries.map((entry) => entry.url)).toEqual([
+      "https://example.com/new",
+      "https://example.com/relative",
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+import { type CheerioAPI, load } from "cheerio";
+import type { AnyNode } from "domhandler";
+
+import { toAbsoluteUrl } from "./utils";
+
+/** A page URL enumerated from a sitemap or feed, with any per-entry metadata */
+export interface SourceEntry {
+  url: string;
+  title?: string;
+  author?: string;
+  /** Publication date (feeds) as YYYY-MM-DD */
+  date?: string;
+  /** Last modification time (sitemap lastmod, Atom updated) in epoch ms */
+  modifiedAt?: number;
+}
+
+interface ParsedSource {
+  kind: "sitemap" | "sitemapindex" | "rss" | "atom";
+  entries: SourceEntry[];
+  /** Child sitemaps listed by a sitemap index */
+  sitemaps: string[];
+}
+
+export interface LoadSourceOptions {
+  /** Drop entries modified or published before this time (epoch ms) */
+  since?: number;
+  /** Maximum number of nested sitemaps to follow from a sitemap index */
+  maxSitemaps?: number;
+  log?: (message: string) => void;
+}
+
+const DEFAULT_MAX_SITEMAPS = 50;
+
+function text(
+  $: CheerioAPI,
+  parent: AnyNode | undefined,
+  selector: string
+): string | undefined {
+  if (!parent) {
+    return;
+  }
+  const value = $(parent).children(selector).first().text().trim();
+  return value || undefined;
+}
+
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) {
+    return;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function toIsoDate(time: number | undefined): string | undefined {
+  return time === undefined
+    ? undefined
+    : new Date(time).toISOString().slice(0, 10);
+}
+
+function parseSitemap($: CheerioAPI, baseUrl: string): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+  for (const node of $("urlset > url").toArray()) {
+    const url = toAbsoluteUrl(text($, node, "loc"), baseUrl);
+    if (!url) {
+      continue;
+    }
+    entries.push({ url, modifiedAt: parseDate(text($, node, "lastmod")) });
+  }
+  return entries;
+}
+
+function parseRss($: CheerioAPI, baseUrl: string): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+  for (const node of $("item").toArray()) {
+    const url = toAbsoluteUrl(
+      text($, node, "link") ?? text($, node, "guid"),
+      baseUrl
+    );
+    if (!url) {
+      continue;
+    }
+    const published = parseDate(
+      text($, node, "pubDate") ?? text($, node, String.raw`dc\:date`)
+    );
+    entries.push({
+      url,
+      title: text($, node, "title"),
+      author: text($, node, String.raw`dc\:creator`) ?? text($, node, "author"),
+      date: toIsoDate(published),
+      modifiedAt: published,
+    });
+  }
+  return entries;
+}
+
+function parseAtom($: CheerioAPI, baseUrl: string): SourceEntry[] {
+  const entries: SourceEntry[] = [];
+  for (const node of $("entry").toArray()) {
+    const links = $(node).children("link").toArray();
+    const alternate =
+      links.find((link) => {
+        const rel = $(link).attr("rel");
+        return !rel || rel === "alternate";
+      }) ?? links[0];
+    const url = toAbsoluteUrl(
+      alternate ? $(alternate).attr("href") : undefined,
+      baseUrl
+    );
+    if (!url) {
+      continue;
+    }
+    const published = parseDate(text($, node, "published"));
+    const updated = parseDate(text($, node, "updated"));
+    const author = $(node).children("author").get(0);
+    entries.push({
+      url,
+      title: text($, node, "title"),
+      author: text($, author, "name"),
+      date: toIsoDate(published ?? updated),
+      modifiedAt: updated ?? published,
+    });
+  }
+  return entries;
+}
+
+/**
+ * Parses a sitemap, sitemap index, RSS or Atom document. Relative URLs are
+ * resolved against `baseUrl`.
+ */
+export function parseUrlSource(xml: string, baseUrl: string): ParsedSource {
+  const $ = load(xml, { xml: true });
+
+  if ($("sitemapindex").length) {
+    const sitemaps = $("sitemapindex > sitemap")
+      .toArray()
+      .map((node) => toAbsoluteUrl(text($, node, "loc"), baseUrl))
+      .filter((url): url is string => Boolean(url));
+    return { kind: "sitemapindex", entries: [], sitemaps };
+  }
+  if ($("urlset").length) {
+    return { kind: "sitemap", entries: parseSitemap($, baseUrl), sitemaps: [] };
+  }
+  if ($(String.raw`rss, rdf\:RDF`).length) {
+    return { kind: "rss", entries: parseRss($, baseUrl), sitemaps: [] };
+  }
+  if ($("feed").length) {
+    return { kind: "atom", entries: parseAtom($, baseUrl), sitemaps: [] };
+  }
+
+  throw new Error(
+    `${baseUrl} is not a sitemap, sitemap index, RSS or Atom feed`
+  );
+}
+
+/**
+ * Enumerates page URLs from a sitemap or feed, following sitemap indexes.
+ * `fetchXml` performs the actual request so callers can reuse their fetch
+ * settings. Entries without a date are kept when filtering by `since`.
+ */
+export async function loadUrlSource(
+  sourceUrl: string,
+  fetchXml: (url: string) => Promise<{ body: string; finalUrl: string }>,
+  options: LoadSourceOptions = {}
+): Promise<SourceEntry[]> {
+  const maxSitemaps = options.maxSitemaps ?? DEFAULT_MAX_SITEMAPS;
+  const pending = [sourceUrl];
+  const visited = new Set<string>();
+  const entries: SourceEntry[] = [];
+
+  while (pending.length > 0 && visited.size < maxSitemaps) {
+    const url = pending.shift() as string;
+    if (visited.has(url)) {
+      continue;
+    }
+    visited.add(url);
+
+    const { body, finalUrl } = await fetchXml(url);
+    const parsed = parseUrlSource(body, finalUrl);
+    options.log?.(
+      `${parsed.kind}: ${url} (${parsed.entries.length} entries, ${parsed.sitemaps.length} sitemaps)`
+    );
+    entries.push(...parsed.entries);
+    pending.push(...parsed.sitemaps);
+  }
+
+  if (pending.length > 0) {
+    options.log?.(
+      `Stopped after ${maxSitemaps} sitemaps; ${pending.length} not followed`
+    );
+  }
+
+  const { since } = options;
+  if (since === undefined) {
+    return entries;
+  }
+  return entries.filter(
+    (entry) => entry.modifiedAt === undefined || entry.modifiedAt >= since
+  );
+}
@@ -0,0 +1,165 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import {
+  createServer,
+  type IncomingHttpHeaders,
+  type RequestListener,
+  type Server,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { fetchPage, fetchText } from "./fetcher";
+import { RobotsDisallowedError } from "./robots";
+
+const ROBOTS = "User-agent: *\nDisallow: /private\n";
+const PAGE =
+  "<html><body><article><h1>Public</h1><p>Some article text that is long enough to keep.</p></article></body></html>";
+
+const servers: Server[] = [];
+
+/** Starts a server on a free port and returns its origin */
+async function listen(handler: RequestListener): Promise<string> {
+  const server = createServer(handler);
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+let origin: string;
+const requested: string[] = [];
+
+beforeAll(async () => {
+  origin = await listen((request, response) => {
+    const path = request.url ?? "/";
+    requested.push(path);
+    if (path === "/robots.txt") {
+      response.writeHead(200, { "Content-Type": "text/plain" });
+      response.end(ROBOTS);
+    } else if (path === "/moved") {
+      response.writeHead(302, { Location: "/private/page" });
+      response.end();
+    } else {
+      response.writeHead(200, { "Content-Type": "text/html" });
+      response.end(PAGE);
+    }
+  });
+});
+
+afterAll(() => {
+  for (const server of servers) {
+    server.close();
+  }
+});
+
+const options = {
+  mode: "static" as const,
+  noCache: true,
+  respectRobots: true,
+  retries: 0,
+};
+
+describe("robots.txt with respectRobots", () => {
+  it("refuses a redirect into a disallowed path", async () => {
+    await expect(fetchPage(`${origin}/moved`, options)).rejects.toBeInstanceOf(
+      RobotsDisallowedError
+    );
+    expect(requested).toContain("/moved");
+    expect(requested).not.toContain("/private/page");
+  });
+
+  it("applies to fetchText, as used for sitemaps and feeds", async () => {
+    await expect(
+      fetchText(`${origin}/private/sitemap.xml`, options)
+    ).rejects.toThrow(
+      `Disallowed by robots.txt: ${origin}/private/sitemap.xml`
+    );
+    expect(requested).not.toContain("/private/sitemap.xml");
+  });
+
+  it("still fetches allowed pages", async () => {
+    const result = await fetchPage(`${origin}/public`, options);
+    expect(result.markdown).toContain("Public");
+  });
+
+  it("tries an unreachable robots.txt again on the next request", async () => {
+    let robotsRequests = 0;
+    const flaky = await listen((request, response) => {
+      if (request.url === "/robots.txt") {
+        robotsRequests += 1;
+        response.writeHead(robotsRequests === 1 ? 503 : 200);
+        response.end(ROBOTS);
+        return;
+      }
+      response.writeHead(200, { "Content-Type": "text/html" });
+      response.end(PAGE);
+    });
+    await expect(fetchPage(`${flaky}/public`, options)).rejects.toBeInstanceOf(
+      RobotsDisallowedError
+    );
+    const result = await fetchPage(`${flaky}/public`, options);
+    expect(result.markdown).toContain("Public");
+    await fetchPage(`${flaky}/public`, options);
+    expect(robotsRequests).toBe(2);
+  });
+});
+
+describe("custom headers on a cross-origin redirect", () => {
+  it("keep plain headers and drop credentials", async () => {
+    const received: IncomingHttpHeaders[] = [];
+    const target = await listen((request, response) => {
+      received.push(request.headers);
+      response.writeHead(200, { "Content-Type": "text/html" });
+      response.end(PAGE);
+    });
+    const start = await listen((request, response) => {
+      received.push(request.headers);
+      response.writeHead(302, { Location: `${target}/landed` });
+      response.end();
+    });
+    await fetchPage(`${start}/away`, {
+      bearerToken: "tok",
+      headers: { "Accept-Language": "de-CH", "X-Api-Key": "secret-key" },
+      mode: "static",
+      noCache: true,
+      retries: 0,
+    });
+    const [first, second] = received;
+    expect(first?.["accept-language"]).toBe("de-CH");
+    expect(first?.["x-api-key"]).toBe("secret-key");
+    expect(first?.authorization).toBe("Bearer tok");
+    expect(second?.["accept-language"]).toBe("de-CH");
+    expect(second?.["x-api-key"]).toBeUndefined();
+    expect(second?.authorization).toBeUndefined();
+  });
+});
+
+describe("proxies on redirects", () => {
+  it("resolve NO_PROXY again for each hop", async () => {
+    const proxied: string[] = [];
+    const proxy = await listen((request, response) => {
+      proxied.push(request.url ?? "");
+      response.writeHead(200, { "Content-Type": "text/html" });
+      response.end(PAGE);
+    });
+    const start = await listen((_request, response) => {
+      response.writeHead(302, { Location: "http://proxied.example/landed" });
+      response.end();
+    });
+    const noProxy = process.env.NO_PROXY;
+    process.env.NO_PROXY = new URL(start).host;
+    try {
+      const result = await fetchPage(`${start}/internal`, {
+        mode: "static",
+        noCache: true,
+        proxy,
+        retries: 0,
+      });
+      expect(result.finalUrl).toBe("http://proxied.example/landed");
+    } finally {
+      if (noProxy === undefined) {
+        Reflect.deleteProperty(process.env, "NO_PROXY");
+      } else {
+        process.env.NO_PROXY = noProxy;
+      }
+    }
+    expect(proxied).toEqual(["http://proxied.example/landed"]);
+  });
+});
@@ -1,13 +1,91 @@
-import { readFileSync } from "node:fs";
-import { basename } from "node:path";
+import { createHash } from "node:crypto";
 import { detectNeedForBrowser } from "./auto-detect";
 import {
+  type BlockingRules,
+  blockRequests,
+  DEFAULT_BLOCKLIST,
+  describeBlocking,
+  loadBlocklist,
+} from "./blocking";
+import { withBrowserContext } from "./browser";
+import {
+  type CachedResponse,
   type CacheMetadata,
   type CacheOptions,
+  type CacheValidators,
   type ExtractionOptions,
-  readFromCache,
+  isCacheable,
+  lookupCache,
+  renewCacheEntry,
   writeToCache,
 } from "./cache";
+import {
+  type CapturedFiles,
+  type CaptureOptions,
+  capturePage,
+  hasCaptures,
+} from "./capture";
+import { decodeBody, describeCharset } from "./charset";
+import {
+  acceptEncoding,
+  BodyTooLargeError,
+  compressionFetchOptions,
+  type DecodedBody,
+  decodeContent,
+  readBodyLimited,
+} from "./compression";
+import { dismissConsent, removeOverlays } from "./consent";
+import {
+  type Cookie,
+  cookieHeaderFor,
+  isCookieExpired,
+  loadCookiesFile,
+  parseSetCookie,
+  storeCookie,
+  toPlaywrightCookies,
+} from "./cookies";
+import {
+  type ContentConverter,
+  convertDocument,
+  type DocumentConverter,
+  documentConverterFor,
+} from "./documents";
+import {
+  authorizationHeader,
+  describeRequestHeaders,
+  originScopedHeaders,
+  type RequestAuthOptions,
+} from "./headers";
+import {
+  type BrowserInteractions,
+  hasInteractions,
+  runInteractions,
+} from "./interactions";
+import { isPdf, pdfToMarkdown } from "./pdf";
+import {
+  playwrightProxy,
+  proxyFetchOptions,
+  redactProxyUrl,
+  resolveProxy,
+} from "./proxy";
+import {
+  isRetryableStatus,
+  parseRetryAfter,
+  type RetryPolicy,
+  TransientError,
+  withRetries,
+} from "./retry";
+import {
+  ALLOW_ALL,
+  crawlDelayMs,
+  DISALLOW_ALL,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  RobotsDisallowedError,
+  type RobotsRules,
+  waitForHost,
+} from "./robots";
+import { formatBytes } from "./utils";
 
 function extractionOptionsFrom(options: FetchOptions): ExtractionOptions {
   const result: ExtractionOptions = {};
@@ -23,30 +101,89 @@ function extractionOptionsFrom(options: FetchOptions): ExtractionOptions {
   if (options.encoding) {
     result.encoding = options.encoding;
   }
+  if (hasInteractions(options.interactions)) {
+    result.interactions = options.interactions;
+  }
+  if (options.dismissConsent === false) {
+    result.dismissConsent = false;
+  }
   return result;
 }
 
-let browserVerified = false;
+/**
+ * Cache options for a fetch. Custom headers and credentials change what the
+ * server returns, so they select a separate cache entry through a digest.
+ */
+function cacheOptionsFrom(options: FetchOptions): Partial<CacheOptions> {
+  const authorization = authorizationHeader(options);
+  const headers = Object.entries(options.headers ?? {})
+    .map(([name, value]) => `${name.toLowerCase()}: ${value}`)
+    .sort();
+  if (authorization) {
+    headers.push(`authorization: ${authorization}`);
+  }
+  return {
+    enabled: !options.noCache,
+    ...options.cache,
+    variant: headers.length
+      ? createHash("sha256").update(headers.join("\n")).digest("hex")
+      : undefined,
+  };
+}
+
+const HTTP_URL_RE = /^https?:/;
+
+/** robots.txt is re-read after a day, the longest RFC 9309 allows caching it */
+const ROBOTS_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface RobotsCacheEntry {
+  rules: Promise<RobotsRules>;
+  expiresAt: number;
+}
 
-type RenderMode = "auto" | "static" | "headless";
+const robotsByOrigin = new Map<string, RobotsCacheEntry>();
 
-interface FetchOptions {
+export type RenderMode = "auto" | "static" | "headless";
+
+export interface FetchOptions extends RequestAuthOptions {
   mode?: RenderMode;
   cookiesPath?: string;
   userAgent?: string;
   encoding?: string;
   timeoutMs?: number;
+  /** Extra attempts after a transient failure (network error, timeout, 408, 429, 5xx) */
+  retries?: number;
+  /** Base delay before the first retry; doubles with jitter on each retry */
+  retryDelayMs?: number;
+  /** Proxy URL for static and headless fetches; defaults to HTTP(S)_PROXY */
+  proxy?: string;
+  /** Refuse URLs disallowed by the host's robots.txt and honour its Crawl-delay */
+  respectRobots?: boolean;
+  /** Minimum delay between requests to the same host */
+  hostDelayMs?: number;
   cache?: Partial<CacheOptions>;
   noCache?: boolean;
   verbose?: boolean;
   raw?: boolean;
   excludeSelectors?: string[];
   stripLinks?: boolean;
+  /** Keep the headless browser alive once idle instead of closing it */
+  reuseBrowser?: boolean;
+  /** Waits, scrolling and clicks on the headless page; imply headless mode */
+  interactions?: BrowserInteractions;
+  /** Answer consent banners and remove overlays before extraction; on unless false */
+  dismissConsent?: boolean;
+  /** Abort image, media, font and tracker requests in headless mode; on unless false */
+  blockResources?: boolean;
+  /** Hosts file replacing the bundled tracker blocklist */
+  blocklistPath?: string;
+  /** Screenshot and PDF of the rendered page; requesting one skips the cache lookup */
+  captures?: CaptureOptions;
   onStrategyResolved?: (strategy: "static" | "headless" | "markdown") => void;
   logBuffer?: string[];
 }
 
-interface FetchResult {
+export interface FetchResult {
   markdown: string;
   finalUrl: string;
   fromCache: boolean;
@@ -54,15 +191,12 @@ interface FetchResult {
   metadata: CacheMetadata;
   /** Token count from x-markdown-tokens header, if present */
   markdownTokens?: number;
-}
-
-interface CookieRecord {
-  name: string;
-  value: string;
-  domain: string;
-  path: string;
-  secure: boolean;
-  expires: number;
+  /** Absolute http(s) links found in the page content */
+  links: string[];
+  /** Converter used instead of the HTML pipeline, e.g. `json` */
+  converter?: ContentConverter;
+  /** Screenshot and PDF saved from the rendered page */
+  captures?: CapturedFiles;
 }
 
 /** Raw HTTP result before the extract→convert pipeline runs */
@@ -74,12 +208,25 @@ interface InternalFetchResult {
   contentType?: string;
   markdown?: string;
   markdownTokens?: number;
+  /** Caching headers of the final response */
+  validators?: CacheValidators;
+  /** The server answered a conditional request with `304 Not Modified` */
+  notModified?: boolean;
+  /** Raw bytes of a PDF response, converted instead of `html` */
+  pdf?: Uint8Array;
+  /** Set for text, JSON, XML and source responses; `html` holds the body */
+  converter?: DocumentConverter;
+  captures?: CapturedFiles;
 }
 
 const DEFAULT_USER_AGENT =
   "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0 Safari/537.36";
 
 const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const MAX_REDIRECTS = 20;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
 
 const logVerbose = (message: string, options?: FetchOptions): void => {
   if (!options?.verbose) {
@@ -92,114 +239,308 @@ const logVerbose = (message: string, options?: FetchOptions): void => {
   console.error(message);
 };
 
-function parseNetscapeCookieLine(
-  line: string
-): { record: CookieRecord; headerPair: string } | null {
-  const trimmed = line.trim();
-  if (!trimmed || trimmed.startsWith("#")) {
-    return null;
+/** Reads `--cookies`, logging how many entries had already expired */
+function loadCookies(options: FetchOptions): Cookie[] {
+  if (!options.cookiesPath) {
+    return [];
   }
+  const cookies = loadCookiesFile(options.cookiesPath);
+  const expired = cookies.filter((cookie) => isCookieExpired(cookie)).length;
+  logVerbose(
+    `Loaded ${cookies.length} cookies${expired ? ` (${expired} expired, skipped)` : ""}`,
+    options
+  );
+  return cookies;
+}
 
-  const parts = trimmed.split("\t");
-  if (parts.length < 7) {
-    return null;
+/** What to block, or undefined when blocking is off */
+function blockingRulesFrom(options: FetchOptions): BlockingRules | undefined {
+  if (options.blockResources === false) {
+    return;
   }
-
-  const domain = parts[0];
-  const path = parts[2];
-  const secureFlag = parts[3];
-  const expires = parts[4];
-  const name = parts[5];
-  const value = parts[6];
-  if (!(domain && path && secureFlag && expires && name && value)) {
-    return null;
+  // Screenshots and PDFs should look like the page, images and fonts included
+  const resourceTypes = !hasCaptures(options.captures);
+  if (!options.blocklistPath) {
+    return { hosts: DEFAULT_BLOCKLIST, resourceTypes };
   }
+  const hosts = loadBlocklist(options.blocklistPath);
+  logVerbose(`Loaded ${hosts.size} blocklist hosts`, options);
+  return { hosts, resourceTypes };
+}
+
+const NOT_RETRIED_HINT: Record<number, string> = {
+  401: " If the page needs a login, try --auth, --bearer-token or --cookies.",
+  403: " If blocked, try --user-agent or --cookies.",
+  407: " Check the proxy credentials.",
+};
 
+function retryPolicyFrom(options: FetchOptions): RetryPolicy {
   return {
-    headerPair: `${name}=${value}`,
-    record: {
-      domain,
-      expires: Number(expires),
-      name,
-      path,
-      secure: secureFlag.toLowerCase() === "true",
-      value,
-    },
+    retries: options.retries ?? DEFAULT_RETRIES,
+    baseDelayMs: options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
   };
 }
 
-function parseCookiesFile(cookiesPath?: string): {
-  header: string | undefined;
-  playwrightCookies: CookieRecord[];
-} {
-  if (!cookiesPath) {
-    return { header: undefined, playwrightCookies: [] };
-  }
-  let content: string;
+/**
+ * Runs one fetch or navigation under the retry policy, logging each retry and
+ * noting the attempt count when every attempt fails.
+ */
+async function retrying<T>(
+  task: () => Promise<T>,
+  options: FetchOptions
+): Promise<T> {
+  const policy = retryPolicyFrom(options);
   try {
-    content = readFileSync(cookiesPath, "utf8");
+    return await withRetries(task, policy, (error, attempt, delayMs) => {
+      logVerbose(
+        `${error.message}; retrying in ${(delayMs / 1000).toFixed(1)}s (retry ${attempt}/${policy.retries})`,
+        options
+      );
+    });
   } catch (error) {
-    throw new Error(
-      `Unable to read cookies file "${basename(cookiesPath)}": ${String(error)}`,
-      { cause: error }
-    );
+    if (error instanceof TransientError && policy.retries > 0) {
+      throw new Error(
+        `${error.message} (gave up after ${policy.retries + 1} attempts)`,
+        { cause: error }
+      );
+    }
+    throw error;
+  }
+}
+
+/** Throws for a non-OK status: transient ones are retried, others fail fast */
+function assertOkStatus(
+  status: number,
+  retryAfter: string | null | undefined
+): void {
+  if (status >= 200 && status < 400) {
+    return;
+  }
+  if (isRetryableStatus(status)) {
+    throw new TransientError(`Request failed with status ${status}`, {
+      retryAfterMs: parseRetryAfter(retryAfter),
+    });
+  }
+  throw new Error(
+    `Request failed with status ${status} (not retried).${NOT_RETRIED_HINT[status] ?? ""}`
+  );
+}
+
+/** Extra `fetch` options routing requests through a proxy */
+type ProxyInit = Awaited<ReturnType<typeof proxyFetchOptions>>;
+
+/**
+ * Resolves the proxy for `url` from `--proxy` or the environment and returns
+ * the matching `fetch` options; logs the proxy with credentials masked.
+ */
+function proxyInitFor(url: string, options: FetchOptions): Promise<ProxyInit> {
+  const proxy = resolveProxy(url, options.proxy);
+  if (!proxy) {
+    return Promise.resolve({});
   }
+  logVerbose(`Using proxy ${redactProxyUrl(proxy.url)}`, options);
+  return proxyFetchOptions(proxy);
+}
 
-  const entries: CookieRecord[] = [];
-  const headerPairs: string[] = [];
-  for (const line of content.split("\n")) {
-    const parsed = parseNetscapeCookieLine(line);
-    if (!parsed) {
-      continue;
+/** Logs the body size on the wire and, if compressed, after decoding */
+function logTransferSize(body: DecodedBody, options: FetchOptions): void {
+  if (!body.encodings.length) {
+    logVerbose(`Received ${formatBytes(body.bytes.byteLength)}`, options);
+    return;
+  }
+  const wire =
+    body.transferBytes === undefined
+      ? ""
+      : `${formatBytes(body.transferBytes)} `;
+  logVerbose(
+    `Received ${wire}${body.encodings.join(", ")}, ${formatBytes(body.bytes.byteLength)} decompressed`,
+    options
+  );
+}
+
+/** The response headers a cache entry keeps for revalidation and TTLs */
+function cacheValidatorsFrom(headers: Headers): CacheValidators {
+  const validators: CacheValidators = {};
+  const etag = headers.get("ETag");
+  const lastModified = headers.get("Last-Modified");
+  const cacheControl = headers.get("Cache-Control");
+  if (etag) {
+    validators.etag = etag;
+  }
+  if (lastModified) {
+    validators.lastModified = lastModified;
+  }
+  if (cacheControl) {
+    validators.cacheControl = cacheControl;
+  }
+  return validators;
+}
+
+/** Static request state shared by every hop and retry of one fetch */
+interface HttpRequest {
+  headers: Headers;
+  /** Cookies from `--cookies` plus any the server set along the way */
+  cookieJar: Cookie[];
+  /** Proxy for the first URL; redirect hops resolve their own */
+  proxyInit: ProxyInit;
+}
+
+/**
+ * Headers for one hop of a redirect chain: cookies are matched to the hop's
+ * URL, and custom headers and credentials are not forwarded to another origin.
+ */
+function headersForHop(
+  request: HttpRequest,
+  hopUrl: string,
+  originalUrl: string,
+  options: FetchOptions
+): Headers {
+  const headers = new Headers(request.headers);
+  for (const [name, value] of Object.entries(
+    originScopedHeaders(options, hopUrl, originalUrl)
+  )) {
+    headers.set(name, value);
+  }
+  if (!headers.has("Cookie")) {
+    const cookie = cookieHeaderFor(request.cookieJar, hopUrl);
+    if (cookie) {
+      headers.set("Cookie", cookie);
     }
-    entries.push(parsed.record);
-    headerPairs.push(parsed.headerPair);
   }
+  return headers;
+}
 
-  return {
-    header: headerPairs.length ? headerPairs.join("; ") : undefined,
-    playwrightCookies: entries,
-  };
+function storeSetCookies(
+  request: HttpRequest,
+  response: Response,
+  hopUrl: string
+): void {
+  for (const header of response.headers.getSetCookie()) {
+    const cookie = parseSetCookie(header, hopUrl);
+    if (cookie) {
+      storeCookie(request.cookieJar, cookie);
+    }
+  }
 }
 
-async function fetchWithHttp(
+/**
+ * Follows redirects by hand so each hop gets its own cookies and cookies set
+ * by a redirect response are sent on the following hops. Every hop after the
+ * first goes through `enforcePoliteness` and gets its own proxy.
+ */
+async function followRedirects(
+  url: string,
+  request: HttpRequest,
+  signal: AbortSignal,
+  options: FetchOptions
+): Promise<{ response: Response; finalUrl: string }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let hopUrl = url;
+  for (let redirects = 0; ; redirects += 1) {
+    const headers = headersForHop(request, hopUrl, url, options);
+    // NO_PROXY may exempt the target of a redirect, or only the first host
+    const proxyInit =
+      hopUrl === url ? request.proxyInit : await proxyInitFor(hopUrl, options);
+    let response: Response;
+    try {
+      response = await fetch(hopUrl, {
+        ...proxyInit,
+        ...compressionFetchOptions(),
+        headers,
+        method: "GET",
+        redirect: "manual",
+        signal,
+      });
+    } catch (error) {
+      throw new TransientError(
+        signal.aborted
+          ? `Request timed out after ${timeoutMs}ms`
+          : `Request failed: ${String(error)}`,
+        { cause: error }
+      );
+    }
+    storeSetCookies(request, response, hopUrl);
+    const location = REDIRECT_STATUSES.has(response.status)
+      ? response.headers.get("Location")
+      : null;
+    if (!location) {
+      return { finalUrl: hopUrl, response };
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    hopUrl = new URL(location, hopUrl).href;
+    logVerbose(`Redirected to ${hopUrl}`, options);
+    // The target may be disallowed, or on a host with its own Crawl-delay
+    await enforcePoliteness(hopUrl, options);
+  }
+}
+
+async function fetchOnceWithHttp(
   url: string,
+  request: HttpRequest,
   options: FetchOptions
 ): Promise<InternalFetchResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
   const controller = new AbortController();
-  const timeout = setTimeout(
-    () => controller.abort(),
-    options.timeoutMs ?? DEFAULT_TIMEOUT_MS
-  );
-
-  const { header: cookiesHeader } = parseCookiesFile(options.cookiesPath);
-  const headers = new Headers({
-    Accept: "text/markdown, text/html",
-    "Accept-Encoding": "identity",
-    "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT,
-  });
-  if (cookiesHeader) {
-    headers.set("Cookie", cookiesHeader);
-  }
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
-    const response = await fetch(url, {
-      headers,
-      method: "GET",
-      redirect: "follow",
-      signal: controller.signal,
-    });
-    if (!response.ok) {
-      throw new Error(
-        `Request failed with status ${response.status}. If blocked, try --user-agent.`
-      );
+    const { response, finalUrl } = await followRedirects(
+      url,
+      request,
+      controller.signal,
+      options
+    );
+    assertOkStatus(response.status, response.headers.get("Retry-After"));
+    const validators = cacheValidatorsFrom(response.headers);
+    if (response.status === 304) {
+      await response.body?.cancel();
+      return {
+        finalUrl,
+        fromCache: false,
+        html: "",
+        notModified: true,
+        strategyUsed: "static",
+        validators,
+      };
     }
 
-    const finalUrl = response.url;
     const contentType = response.headers.get("Content-Type") ?? undefined;
-    const buffer = await response.arrayBuffer();
-    const decoder = new TextDecoder(options.encoding);
-    const body = decoder.decode(buffer);
+    let raw: Uint8Array;
+    try {
+      raw = await readBodyLimited(response);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        throw error;
+      }
+      throw new TransientError(
+        controller.signal.aborted
+          ? `Request timed out after ${timeoutMs}ms`
+          : `Reading response failed: ${String(error)}`,
+        { cause: error }
+      );
+    }
+    const decoded = decodeContent(raw, response.headers);
+    logTransferSize(decoded, options);
+    if (isPdf(contentType, decoded.bytes)) {
+      return {
+        contentType,
+        finalUrl,
+        fromCache: false,
+        html: "",
+        pdf: decoded.bytes,
+        strategyUsed: "static",
+        validators,
+      };
+    }
+    const { text: body, charset } = decodeBody(
+      decoded.bytes,
+      contentType,
+      options.encoding
+    );
+    logVerbose(`Decoded response as ${describeCharset(charset)}`, options);
 
     if (contentType && MARKDOWN_CONTENT_TYPE_RE.test(contentType)) {
       const tokensHeader = response.headers.get("x-markdown-tokens");
@@ -215,169 +556,379 @@ async function fetchWithHttp(
         markdown: body,
         markdownTokens: tokensHeader ? Number(tokensHeader) : undefined,
         strategyUsed: "markdown",
+        validators,
       };
     }
 
     return {
       contentType,
+      converter: documentConverterFor(contentType, finalUrl),
       finalUrl,
       fromCache: false,
       html: body,
       strategyUsed: "static",
+      validators,
     };
-  } catch (error) {
-    const prefix =
-      error instanceof Error && error.name === "AbortError"
-        ? "Request timed out"
-        : "Request failed";
-    throw new Error(`${prefix}: ${String(error)}`, { cause: error });
   } finally {
     clearTimeout(timeout);
   }
 }
 
-async function fetchWithBrowser(
+/**
+ * Fetches `url` without a browser. With `conditional` validators from a stale
+ * cache entry, the request is conditional and may come back `notModified`.
+ */
+async function fetchWithHttp(
   url: string,
-  options: FetchOptions
+  options: FetchOptions,
+  conditional?: CacheValidators
 ): Promise<InternalFetchResult> {
-  let playwright: typeof import("playwright") | null = null;
-  try {
-    playwright = await import("playwright");
-  } catch (error) {
-    throw new Error(
-      `JS mode requested but playwright is not installed. Install it and retry. (${String(
-        error
-      )})`,
-      { cause: error }
-    );
+  const headers = new Headers({
+    Accept: "text/markdown, text/html",
+    "Accept-Encoding": acceptEncoding(),
+    "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT,
+  });
+  // Checks the credentials up front; they are added per hop
+  authorizationHeader(options);
+  logRequestHeaders(options);
+  if (conditional?.etag) {
+    headers.set("If-None-Match", conditional.etag);
+  }
+  if (conditional?.lastModified) {
+    headers.set("If-Modified-Since", conditional.lastModified);
   }
 
-  const { playwrightCookies } = parseCookiesFile(options.cookiesPath);
-  const browser = await playwright.chromium.launch({ headless: true });
-  try {
-    const context = await browser.newContext({
-      userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
-    });
+  const request: HttpRequest = {
+    cookieJar: loadCookies(options),
+    headers,
+    proxyInit: await proxyInitFor(url, options),
+  };
+  return retrying(() => fetchOnceWithHttp(url, request, options), options);
+}
 
-    if (playwrightCookies.length) {
-      await context.addCookies(
-        playwrightCookies.map((cookie) => ({
-          ...cookie,
-          httpOnly: false,
-          sameSite: "Lax" as const,
-        }))
-      );
+async function loadRobotsTxt(
+  origin: string,
+  options: FetchOptions
+): Promise<RobotsRules> {
+  const robotsUrl = `${origin}/robots.txt`;
+  const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+  try {
+    const proxyInit = await proxyInitFor(robotsUrl, options);
+    const body = await retrying(async () => {
+      let response: Response;
+      try {
+        response = await fetch(robotsUrl, {
+          ...proxyInit,
+          headers: { "User-Agent": userAgent },
+          redirect: "follow",
+          signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new TransientError(
+          `Fetching ${robotsUrl} failed: ${String(error)}`,
+          {
+            cause: error,
+          }
+        );
+      }
+      if (
+        response.status >= 400 &&
+        response.status < 500 &&
+        !isRetryableStatus(response.status)
+      ) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new TransientError(
+          `Fetching ${robotsUrl} failed with status ${response.status}`,
+          { retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")) }
+        );
+      }
+      return response.text();
+    }, options);
+    if (body === null) {
+      logVerbose(`No robots.txt at ${origin}; all URLs allowed`, options);
+      return ALLOW_ALL;
     }
-
-    const page = await context.newPage();
-    await page.goto(url, {
-      timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
-      waitUntil: "load",
-    });
-
-    const networkidleTimeout = Math.max(
-      5000,
-      Math.floor((options.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 2)
+    logVerbose(`Loaded ${robotsUrl}`, options);
+    return parseRobotsTxt(body);
+  } catch (error) {
+    // RFC 9309: an unreachable robots.txt means the whole site is disallowed
+    logVerbose(
+      `${error instanceof Error ? error.message : String(error)}; treating site as disallowed`,
+      options
     );
+    return DISALLOW_ALL;
+  }
+}
 
-    try {
-      await page.waitForLoadState("networkidle", {
-        timeout: networkidleTimeout,
-      });
-    } catch {
-      // Ignore timeout - networkidle may not be reached, continue with page content
-    }
-
-    const html = await page.content();
-    const finalUrl = page.url();
-
-    return { finalUrl, fromCache: false, html, strategyUsed: "headless" };
-  } finally {
-    await browser.close();
+/**
+ * The robots.txt rules for `origin`, fetched at most once a day. A robots.txt
+ * that could not be fetched disallows the site for the requests waiting on it
+ * only; the next request tries again.
+ */
+function robotsRulesFor(
+  origin: string,
+  options: FetchOptions
+): Promise<RobotsRules> {
+  const cached = robotsByOrigin.get(origin);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rules;
   }
+  const entry: RobotsCacheEntry = {
+    expiresAt: Date.now() + ROBOTS_TTL_MS,
+    rules: loadRobotsTxt(origin, options).then((rules) => {
+      if (rules === DISALLOW_ALL && robotsByOrigin.get(origin) === entry) {
+        robotsByOrigin.delete(origin);
+      }
+      return rules;
+    }),
+  };
+  robotsByOrigin.set(origin, entry);
+  return entry.rules;
 }
 
-async function ensureBrowserInstalled(_verbose?: boolean): Promise<void> {
-  if (browserVerified) {
+/**
+ * With `respectRobots`, refuses a URL robots.txt disallows and returns the
+ * rules for its origin.
+ */
+async function assertAllowedByRobots(
+  url: string,
+  options: FetchOptions
+): Promise<RobotsRules | undefined> {
+  if (!options.respectRobots) {
     return;
   }
-
-  let pw: typeof import("playwright");
-  try {
-    pw = await import("playwright");
-  } catch {
-    throw new Error("JS mode requested but playwright is not installed");
+  const rules = await robotsRulesFor(new URL(url).origin, options);
+  if (!isAllowedByRobots(rules, options.userAgent ?? DEFAULT_USER_AGENT, url)) {
+    throw new RobotsDisallowedError(url);
   }
+  return rules;
+}
 
-  try {
-    const browser = await pw.chromium.launch({ headless: true });
-    await browser.close();
-    browserVerified = true;
-  } catch {
-    if (process.stdin.isTTY && !process.env.CI) {
-      const readline = await import("node:readline");
-      const rl = readline.createInterface({
-        input: process.stdin,
-        output: process.stderr,
-      });
+/**
+ * Applies per-host politeness before a network fetch: with `respectRobots`,
+ * refuses URLs robots.txt disallows and waits out its Crawl-delay; otherwise
+ * only `hostDelayMs` spacing applies.
+ */
+async function enforcePoliteness(
+  url: string,
+  options: FetchOptions
+): Promise<void> {
+  const { origin } = new URL(url);
+  let delayMs = options.hostDelayMs ?? 0;
+
+  const rules = await assertAllowedByRobots(url, options);
+  if (rules) {
+    const userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    delayMs = Math.max(delayMs, crawlDelayMs(rules, userAgent) ?? 0);
+  }
 
-      const answer = await new Promise<string>((resolve) => {
-        rl.question(
-          "Browser binaries not found. Run `bunx playwright install chromium`? (y/n) ",
-          resolve
-        );
-      });
+  const waitedMs = await waitForHost(origin, delayMs);
+  if (waitedMs > 0) {
+    logVerbose(
+      `Waited ${waitedMs}ms to keep ${delayMs}ms between requests to ${origin}`,
+      options
+    );
+  }
+}
 
-      rl.close();
+/** Logs custom header names and the auth scheme, never their values */
+function logRequestHeaders(options: FetchOptions): void {
+  const described = describeRequestHeaders(options);
+  if (described) {
+    logVerbose(`Request headers: ${described}`, options);
+  }
+}
 
-      if (answer.toLowerCase() === "y") {
-        console.error("Installing chromium...");
-        const { $ } = await import("bun");
-        await $`bunx playwright install chromium`;
-        browserVerified = true;
-        return;
-      }
+/**
+ * Adds custom headers to every request, and credential headers and
+ * Authorization to requests for the page's own origin only; see
+ * `originScopedHeaders`.
+ */
+/** URLs a navigation was redirected to, in order, ending with `request`'s */
+function redirectTargets(request: import("playwright").Request): string[] {
+  const targets: string[] = [];
+  let hop = request;
+  let previous = hop.redirectedFrom();
+  while (previous) {
+    targets.unshift(hop.url());
+    hop = previous;
+    previous = hop.redirectedFrom();
+  }
+  return targets;
+}
 
-      throw new Error(
-        "Browser binaries not found. Run `bunx playwright install chromium`"
-      );
+/**
+ * The browser follows redirects, including script ones, without asking; with
+ * `respectRobots`, refuses the page before extraction if any went to a URL
+ * robots.txt disallows.
+ */
+async function assertRedirectsAllowed(
+  url: string,
+  targets: string[],
+  options: FetchOptions
+): Promise<void> {
+  for (const target of new Set(targets)) {
+    if (target !== url && HTTP_URL_RE.test(target)) {
+      await assertAllowedByRobots(target, options);
     }
+  }
+}
 
-    throw new Error(
-      "Browser binaries not found. Run `bunx playwright install chromium`"
-    );
+async function scopeHeadersToOrigin(
+  context: import("playwright").BrowserContext,
+  url: string,
+  options: FetchOptions
+): Promise<void> {
+  if (!Object.keys(originScopedHeaders(options, url, url)).length) {
+    return;
   }
+  await context.route("**/*", (route) => {
+    const request = route.request();
+    const scoped = Object.entries(
+      originScopedHeaders(options, request.url(), url)
+    );
+    if (!scoped.length) {
+      return route.fallback();
+    }
+    // Playwright reports header names in lower case
+    const headers = { ...request.headers() };
+    for (const [name, value] of scoped) {
+      headers[name.toLowerCase()] = value;
+    }
+    return route.fallback({ headers });
+  });
 }
 
-async function tryGetFromCache(
+function fetchWithBrowser(
   url: string,
   options: FetchOptions
-): Promise<FetchResult | null> {
-  if (options.noCache) {
-    return null;
+): Promise<InternalFetchResult> {
+  const cookies = toPlaywrightCookies(loadCookies(options));
+  const blockingRules = blockingRulesFrom(options);
+  const proxy = resolveProxy(url, options.proxy);
+  if (proxy) {
+    logVerbose(`Using proxy ${redactProxyUrl(proxy.url)}`, options);
   }
+  const contextOptions = {
+    proxy: proxy && playwrightProxy(proxy),
+    userAgent: options.userAgent ?? DEFAULT_USER_AGENT,
+  };
+  logRequestHeaders(options);
+
+  return withBrowserContext(
+    contextOptions,
+    async (context) => {
+      await scopeHeadersToOrigin(context, url, options);
+      // Registered last so it runs first and blocked requests never go out
+      const blocking =
+        blockingRules && (await blockRequests(context, blockingRules));
+      if (cookies.length) {
+        await context.addCookies(cookies);
+      }
+
+      const page = await context.newPage();
+      let redirects: string[] = [];
+      const validators = await retrying(async () => {
+        let response: import("playwright").Response | null;
+        try {
+          response = await page.goto(url, {
+            timeout: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+            waitUntil: "load",
+          });
+        } catch (error) {
+          throw new TransientError(`Navigation failed: ${String(error)}`, {
+            cause: error,
+          });
+        }
+        if (!response) {
+          return {};
+        }
+        redirects = redirectTargets(response.request());
+        assertOkStatus(response.status(), response.headers()["retry-after"]);
+        return cacheValidatorsFrom(new Headers(response.headers()));
+      }, options);
+
+      const networkidleTimeout = Math.max(
+        5000,
+        Math.floor((options.timeoutMs ?? DEFAULT_TIMEOUT_MS) / 2)
+      );
+
+      try {
+        await page.waitForLoadState("networkidle", {
+          timeout: networkidleTimeout,
+        });
+      } catch {
+        // Ignore timeout - networkidle may not be reached, continue with page content
+      }
+      await assertRedirectsAllowed(url, [...redirects, page.url()], options);
+      const log = (message: string) => logVerbose(message, options);
+      // Raw output keeps the page as served, as in static extraction
+      const clearOverlays = options.dismissConsent !== false && !options.raw;
+      // Before interactions, so a consent wall cannot swallow their clicks
+      if (clearOverlays) {
+        await dismissConsent(page, log);
+      }
+      if (options.interactions) {
+        await runInteractions(page, options.interactions, {
+          log,
+          timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        });
+      }
+      if (clearOverlays) {
+        await removeOverlays(page, log);
+      }
+
+      const html = await page.content();
+      const finalUrl = page.url();
+      if (blocking) {
+        logVerbose(describeBlocking(blocking), options);
+      }
+      const captures = hasCaptures(options.captures)
+        ? await capturePage(page, options.captures, log)
+        : undefined;
 
-  const cached = await readFromCache(
-    url,
-    { enabled: !options.noCache, ...options.cache },
-    extractionOptionsFrom(options)
+      return {
+        captures,
+        finalUrl,
+        fromCache: false,
+        html,
+        strategyUsed: "headless",
+        validators,
+      };
+    },
+    {
+      keepAlive: options.reuseBrowser,
+      log: (message) => logVerbose(message, options),
+    }
   );
-  if (!cached) {
-    return null;
-  }
+}
 
-  logVerbose("Cache hit", options);
+async function cachedResult(entry: CachedResponse): Promise<FetchResult> {
+  const { extractMarkdownLinks } = await import("./links");
   return {
-    markdown: cached.markdown,
-    finalUrl: cached.finalUrl,
+    converter: entry.converter,
+    markdown: entry.markdown,
+    finalUrl: entry.finalUrl,
     fromCache: true,
     strategyUsed: "static",
-    metadata: cached.metadata,
+    metadata: entry.metadata,
+    links: entry.links ?? extractMarkdownLinks(entry.markdown),
   };
 }
 
+/** Validators for a conditional request, if the entry has any */
+function revalidationFor(entry: CachedResponse): CacheValidators | undefined {
+  if (!(entry.etag || entry.lastModified)) {
+    return;
+  }
+  return { etag: entry.etag, lastModified: entry.lastModified };
+}
+
 const HTML_CONTENT_TYPE_RE = /text\/html|application\/xhtml\+xml/i;
 const MARKDOWN_CONTENT_TYPE_RE = /text\/markdown/i;
+const PDF_PATH_RE = /\.pdf$/i;
 
 interface FetchModeResult {
   html: string;
@@ -385,24 +936,56 @@ interface FetchModeResult {
   strategy: "static" | "headless" | "markdown";
   markdown?: string;
   markdownTokens?: number;
+  validators?: CacheValidators;
+  notModified?: boolean;
+  pdf?: Uint8Array;
+  converter?: DocumentConverter;
+  captures?: CapturedFiles;
 }
 
-async function fetchWithAutoDetect(
+function toModeResult(result: InternalFetchResult): FetchModeResult {
+  return {
+    html: result.html,
+    finalUrl: result.finalUrl,
+    strategy: result.strategyUsed,
+    markdown: result.markdown,
+    markdownTokens: result.markdownTokens,
+    validators: result.validators,
+    notModified: result.notModified,
+    pdf: result.pdf,
+    converter: result.converter,
+    captures: result.captures,
+  };
+}
+
+/**
+ * Renders a page the static fetcher just requested. The browser's request is
+ * a second one to the same host, so it waits out the host delay again.
+ */
+async function renderAfterStaticFetch(
   url: string,
   options: FetchOptions
+): Promise<InternalFetchResult> {
+  await enforcePoliteness(url, options);
+  return fetchWithBrowser(url, options);
+}
+
+async function fetchWithAutoDetect(
+  url: string,
+  options: FetchOptions,
+  conditional?: CacheValidators
 ): Promise<FetchModeResult> {
   logVerbose("Auto-detect mode: starting static probe", options);
 
-  const staticResult = await fetchWithHttp(url, options);
+  const staticResult = await fetchWithHttp(url, options, conditional);
 
-  if (staticResult.strategyUsed === "markdown") {
-    return {
-      html: "",
-      finalUrl: staticResult.finalUrl,
-      strategy: "markdown",
-      markdown: staticResult.markdown,
-      markdownTokens: staticResult.markdownTokens,
-    };
+  if (
+    staticResult.notModified ||
+    staticResult.strategyUsed === "markdown" ||
+    staticResult.pdf ||
+    staticResult.converter
+  ) {
+    return toModeResult(staticResult);
   }
 
   const rawHtml = staticResult.html;
@@ -413,7 +996,7 @@ async function fetchWithAutoDetect(
     !HTML_CONTENT_TYPE_RE.test(staticResult.contentType)
   ) {
     logVerbose("Auto-detect: non-HTML content type, using static", options);
-    return { html: rawHtml, finalUrl, strategy: "static" };
+    return toModeResult(staticResult);
   }
 
   const stage1 = detectNeedForBrowser(rawHtml, null, {
@@ -427,18 +1010,13 @@ async function fetchWithAutoDetect(
       `Auto-detect: ${stage1.reason}, falling back to headless`,
       options
     );
-    await ensureBrowserInstalled(options.verbose);
-    const browserResult = await fetchWithBrowser(url, options);
-    return {
-      html: browserResult.html,
-      finalUrl: browserResult.finalUrl,
-      strategy: "headless",
-    };
+    return toModeResult(await renderAfterStaticFetch(url, options));
   }
 
   const { extractContent } = await import("./extractor");
   const extracted = extractContent(rawHtml, {
     baseUrl: finalUrl,
+    dismissConsent: options.dismissConsent,
     raw: options.raw,
   });
   const extractedHtml = extracted.html;
@@ -454,67 +1032,84 @@ async function fetchWithAutoDetect(
       `Auto-detect: ${stage2.reason}, falling back to headless`,
       options
     );
-    await ensureBrowserInstalled(options.verbose);
-    const browserResult = await fetchWithBrowser(url, options);
-    return {
-      html: browserResult.html,
-      finalUrl: browserResult.finalUrl,
-      strategy: "headless",
-    };
+    return toModeResult(await renderAfterStaticFetch(url, options));
   }
 
   logVerbose("Auto-detect: content is sufficient, using static", options);
-  return { html: rawHtml, finalUrl, strategy: "static" };
+  return toModeResult(staticResult);
+}
+
+/**
+ * Headless pages are revalidated with a static conditional request, so an
+ * unchanged page skips the browser. Any other outcome falls through to it.
+ */
+async function revalidateStatically(
+  url: string,
+  options: FetchOptions,
+  conditional: CacheValidators
+): Promise<InternalFetchResult | null> {
+  try {
+    const result = await fetchWithHttp(
+      url,
+      { ...options, retries: 0 },
+      conditional
+    );
+    return result.notModified ? result : null;
+  } catch {
+    return null;
+  }
 }
 
 async function fetchWithMode(
   url: string,
   mode: RenderMode,
-  options: FetchOptions
+  options: FetchOptions,
+  conditional?: CacheValidators
 ): Promise<FetchModeResult> {
   if (mode === "static") {
-    const result = await fetchWithHttp(url, options);
-    if (result.strategyUsed === "markdown") {
-      return {
-        html: "",
-        finalUrl: result.finalUrl,
-        strategy: "markdown",
-        markdown: result.markdown,
-        markdownTokens: result.markdownTokens,
-      };
-    }
-    return { html: result.html, finalUrl: result.finalUrl, strategy: "static" };
+    return toModeResult(await fetchWithHttp(url, options, conditional));
+  }
+
+  if (mode === "headless" && PDF_PATH_RE.test(new URL(url).pathname)) {
+    // Chromium downloads PDFs instead of rendering them
+    logVerbose("PDF URL, fetching without a browser", options);
+    return toModeResult(await fetchWithHttp(url, options, conditional));
   }
 
   if (mode === "headless") {
-    await ensureBrowserInstalled(options.verbose);
-    const result = await fetchWithBrowser(url, options);
-    return {
-      html: result.html,
-      finalUrl: result.finalUrl,
-      strategy: "headless",
-    };
+    if (!conditional) {
+      return toModeResult(await fetchWithBrowser(url, options));
+    }
+    const unchanged = await revalidateStatically(url, options, conditional);
+    if (unchanged) {
+      return toModeResult(unchanged);
+    }
+    return toModeResult(await renderAfterStaticFetch(url, options));
   }
 
-  return fetchWithAutoDetect(url, options);
+  return fetchWithAutoDetect(url, options, conditional);
 }
 
-async function htmlToMarkdownPipeline(
+export async function htmlToMarkdownPipeline(
   html: string,
   finalUrl: string,
   options: FetchOptions
-): Promise<{ markdown: string; metadata: CacheMetadata }> {
+): Promise<{ markdown: string; metadata: CacheMetadata; links: string[] }> {
   const { extractContent } = await import("./extractor");
   const { convertTablesToJson } = await import("./tables");
   const { annotateImages } = await import("./images");
   const { convertHtmlToMarkdown } = await import("./converter");
+  const { extractLinks } = await import("./links");
 
   const extracted = extractContent(html, {
     baseUrl: finalUrl,
+    dismissConsent: options.dismissConsent,
     excludeSelectors: options.excludeSelectors,
     raw: options.raw,
   });
 
+  const links = extractLinks(extracted.html, finalUrl);
+
   let workingHtml = extracted.html;
   workingHtml = convertTablesToJson(workingHtml);
   workingHtml = annotateImages(workingHtml, finalUrl);
@@ -530,7 +1125,90 @@ async function htmlToMarkdownPipeline(
     author: extracted.metadata.author,
   };
 
-  return { markdown, metadata };
+  return { markdown, metadata, links };
+}
+
+/**
+ * Converts a fetched page, PDF, text document or server-rendered markdown to
+ * markdown
+ */
+async function convertFetched(
+  result: FetchModeResult,
+  options: FetchOptions
+): Promise<{
+  markdown: string;
+  metadata: CacheMetadata;
+  markdownTokens?: number;
+  links: string[];
+  converter?: ContentConverter;
+}> {
+  if (result.markdown) {
+    // Server returned markdown directly (content negotiation)
+    const { extractMarkdownLinks } = await import("./links");
+    return {
+      markdown: result.markdown,
+      metadata: {},
+      markdownTokens: result.markdownTokens,
+      links: extractMarkdownLinks(result.markdown),
+    };
+  }
+  if (result.pdf) {
+    const { extractMarkdownLinks } = await import("./links");
+    const converted = await pdfToMarkdown(result.pdf);
+    logVerbose(`Converted PDF with ${converted.pageCount} pages`, options);
+    return {
+      markdown: converted.markdown,
+      metadata: converted.metadata,
+      links: extractMarkdownLinks(converted.markdown),
+      converter: "pdf",
+    };
+  }
+  if (result.converter) {
+    const { extractMarkdownLinks } = await import("./links");
+    logVerbose(`Converting as ${result.converter}`, options);
+    const converted = convertDocument(
+      result.converter,
+      result.html,
+      result.finalUrl
+    );
+    return {
+      ...converted,
+      links:
+        result.converter === "text"
+          ? extractMarkdownLinks(converted.markdown)
+          : [],
+      converter: result.converter,
+    };
+  }
+  // Run extract→convert pipeline on HTML
+  return htmlToMarkdownPipeline(result.html, result.finalUrl, options);
+}
+
+/**
+ * Captures for a page the browser never rendered: with `force`, it is
+ * rendered once more just for them, otherwise there are none
+ */
+async function captureStaticPage(
+  result: FetchModeResult,
+  options: FetchOptions
+): Promise<CapturedFiles | undefined> {
+  if (!hasCaptures(options.captures) || result.captures) {
+    return result.captures;
+  }
+  if (!options.captures.force) {
+    logVerbose(
+      "No browser rendered the page, so nothing was captured",
+      options
+    );
+    return;
+  }
+  if (result.pdf) {
+    logVerbose("PDFs are not rendered, so nothing was captured", options);
+    return;
+  }
+  logVerbose("Rendering the page for the captures", options);
+  const rendered = await renderAfterStaticFetch(result.finalUrl, options);
+  return rendered.captures;
 }
 
 async function orchestrateFetch(
@@ -538,42 +1216,47 @@ async function orchestrateFetch(
   mode: RenderMode,
   options: FetchOptions
 ): Promise<FetchResult> {
-  const cached = await tryGetFromCache(url, options);
-  if (cached) {
-    options.onStrategyResolved?.(cached.strategyUsed);
-    return cached;
+  const cacheOptions = cacheOptionsFrom(options);
+  // A cached page has no rendering to capture
+  const cached = hasCaptures(options.captures)
+    ? null
+    : await lookupCache(url, cacheOptions, extractionOptionsFrom(options));
+  if (cached?.fresh) {
+    logVerbose("Cache hit", options);
+    options.onStrategyResolved?.("static");
+    return cachedResult(cached.entry);
   }
 
-  const result = await fetchWithMode(url, mode, options);
+  await enforcePoliteness(url, options);
+  const conditional = cached ? revalidationFor(cached.entry) : undefined;
+  if (conditional) {
+    logVerbose("Cache entry is stale, revalidating", options);
+  }
+  const result = await fetchWithMode(url, mode, options, conditional);
+  if (cached && result.notModified) {
+    logVerbose("Not modified, renewing cache entry", options);
+    await renewCacheEntry(cached.entry, result.validators ?? {}, cacheOptions);
+    options.onStrategyResolved?.("static");
+    return cachedResult(cached.entry);
+  }
   options.onStrategyResolved?.(result.strategy);
 
-  let markdown: string;
-  let metadata: CacheMetadata = {};
-  let markdownTokens: number | undefined;
+  const { markdown, metadata, markdownTokens, links, converter } =
+    await convertFetched(result, options);
+  const captures = await captureStaticPage(result, options);
 
-  if (result.markdown) {
-    // Server returned markdown directly (content negotiation)
-    markdown = result.markdown;
-    markdownTokens = result.markdownTokens;
-  } else {
-    // Run extract→convert pipeline on HTML
-    const converted = await htmlToMarkdownPipeline(
-      result.html,
-      result.finalUrl,
-      options
-    );
-    markdown = converted.markdown;
-    metadata = converted.metadata;
-  }
-
-  if (!options.noCache) {
+  if (
+    !options.noCache &&
+    isCacheable(result.validators?.cacheControl, cacheOptions)
+  ) {
     await writeToCache(
       url,
       markdown,
       result.finalUrl,
       metadata,
-      { enabled: !options.noCache, ...options.cache },
-      extractionOptionsFrom(options)
+      cacheOptions,
+      extractionOptionsFrom(options),
+      { links, converter, ...result.validators }
     );
   }
 
@@ -584,6 +1267,9 @@ async function orchestrateFetch(
     strategyUsed: result.strategy,
     metadata,
     markdownTokens,
+    links,
+    converter,
+    captures,
   };
 }
 
@@ -591,6 +1277,31 @@ export function fetchPage(
   url: string,
   options: FetchOptions
 ): Promise<FetchResult> {
-  const mode = options.mode ?? "auto";
+  let mode = options.mode ?? "auto";
+  if (hasInteractions(options.interactions)) {
+    if (mode === "auto") {
+      logVerbose("Page interactions requested, rendering headless", options);
+      mode = "headless";
+    } else if (mode === "static") {
+      logVerbose("Page interactions are ignored in static mode", options);
+    }
+  }
   return orchestrateFetch(url, mode, options);
 }
+
+/**
+ * Fetches a URL over HTTP and returns the decoded body without running the
+ * markdown pipeline. Used for auxiliary documents such as sitemaps and feeds.
+ */
+export async function fetchText(
+  url: string,
+  options: FetchOptions
+): Promise<{ body: string; finalUrl: string; contentType?: string }> {
+  await enforcePoliteness(url, options);
+  const result = await fetchWithHttp(url, options);
+  return {
+    body: result.markdown ?? result.html,
+    finalUrl: result.finalUrl,
+    contentType: result.contentType,
+  };
+}
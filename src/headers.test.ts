@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import {
+  authorizationHeader,
+  describeRequestHeaders,
+  isCredentialHeader,
+  originScopedHeaders,
+  parseHeader,
+  parseHeaders,
+} from "./headers";
+
+describe("parseHeader", () => {
+  it("splits at the first colon and trims", () => {
+    expect(parseHeader("Accept-Language:  de-CH, de;q=0.9")).toEqual([
+      "Accept-Language",
+      "de-CH, de;q=0.9",
+    ]);
+    expect(parseHeader("X-Time: 12:30")).toEqual(["X-Time", "12:30"]);
+  });
+
+  it("rejects headers without a valid name", () => {
+    expect(() => parseHeader("no colon")).toThrow('expected "Name: value"');
+    expect(() => parseHeader(": value")).toThrow('expected "Name: value"');
+    expect(() => parseHeader("Bad Name: x")).toThrow('expected "Name: value"');
+  });
+
+  it("lets later headers win", () => {
+    expect(parseHeaders(["X-A: 1", "X-A: 2"])).toEqual({ "X-A": "2" });
+  });
+});
+
+describe("authorizationHeader", () => {
+  it("encodes basic auth and prefers a bearer token", () => {
+    expect(authorizationHeader({ basicAuth: "user:pa:ss" })).toBe(
+      `Basic ${Buffer.from("user:pa:ss").toString("base64")}`
+    );
+    expect(
+      authorizationHeader({ basicAuth: "user:pass", bearerToken: "tok" })
+    ).toBe("Bearer tok");
+    expect(authorizationHeader({})).toBeUndefined();
+  });
+
+  it("rejects basic auth without a password separator", () => {
+    expect(() => authorizationHeader({ basicAuth: "user" })).toThrow(
+      "user:pass"
+    );
+  });
+});
+
+describe("originScopedHeaders", () => {
+  const options = {
+    bearerToken: "tok",
+    headers: {
+      "Accept-Language": "de-CH",
+      Cookie: "sid=1",
+      "X-Api-Key": "secret-key",
+    },
+  };
+
+  it("sends custom headers and credentials to the page's origin", () => {
+    expect(
+      originScopedHeaders(
+        options,
+        "https://example.com/api/data",
+        "https://example.com/page"
+      )
+    ).toEqual({
+      "Accept-Language": "de-CH",
+      Authorization: "Bearer tok",
+      Cookie: "sid=1",
+      "X-Api-Key": "secret-key",
+    });
+  });
+
+  it("sends only non-credential headers to other origins", () => {
+    const page = "https://example.com/page";
+    for (const url of [
+      "https://cdn.example.net/app.js",
+      "https://www.example.com/page",
+      "http://example.com/page",
+    ]) {
+      expect(originScopedHeaders(options, url, page)).toEqual({
+        "Accept-Language": "de-CH",
+      });
+    }
+  });
+});
+
+describe("isCredentialHeader", () => {
+  it("recognizes common credential header names", () => {
+    for (const name of [
+      "Authorization",
+      "Proxy-Authorization",
+      "Cookie",
+      "X-Api-Key",
+      "X-Auth-Token",
+      "X-CSRF-Token",
+      "X-Session-Id",
+    ]) {
+      expect(isCredentialHeader(name)).toBe(true);
+    }
+    for (const name of ["Accept-Language", "User-Agent", "Referer"]) {
+      expect(isCredentialHeader(name)).toBe(false);
+    }
+  });
+});
+
+describe("describeRequestHeaders", () => {
+  it("lists header names and never values or credentials", () => {
+    const described = describeRequestHeaders({
+      headers: { "X-Api-Key": "secret-key" },
+      bearerToken: "secret-token",
+    });
+    expect(described).toBe("X-Api-Key, Authorization: Bearer (redacted)");
+    expect(described).not.toContain("secret");
+  });
+});
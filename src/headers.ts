@@ -0,0 +1,92 @@
+const HEADER_NAME_RE = /^[!#$%&'*+.^`|~\w-]+$/;
+/** Names of headers that carry credentials, e.g. `Cookie` or `X-Api-Key` */
+const CREDENTIAL_HEADER_RE = /auth|cookie|token|secret|session|passw|key/i;
+
+/** Custom headers and credentials sent with every request */
+export interface RequestAuthOptions {
+  /** Extra request headers; override the defaults, including User-Agent */
+  headers?: Record<string, string>;
+  /** HTTP basic auth credentials as `user:pass` */
+  basicAuth?: string;
+  /** Sent as `Authorization: Bearer <token>`; takes precedence over basicAuth */
+  bearerToken?: string;
+}
+
+/** Parses a `Name: value` header as given to `--header` */
+export function parseHeader(header: string): [string, string] {
+  const colon = header.indexOf(":");
+  const name = colon > 0 ? header.slice(0, colon).trim() : "";
+  if (!HEADER_NAME_RE.test(name)) {
+    throw new Error(`Invalid header "${header}": expected "Name: value"`);
+  }
+  return [name, header.slice(colon + 1).trim()];
+}
+
+/** Parses `Name: value` strings into a header map; later entries win */
+export function parseHeaders(headers: string[]): Record<string, string> {
+  return Object.fromEntries(headers.map(parseHeader));
+}
+
+/**
+ * Builds the `Authorization` header value from a bearer token or `user:pass`
+ * basic auth credentials, if either is set.
+ */
+export function authorizationHeader(
+  options: RequestAuthOptions
+): string | undefined {
+  if (options.bearerToken) {
+    return `Bearer ${options.bearerToken}`;
+  }
+  if (!options.basicAuth) {
+    return;
+  }
+  if (!options.basicAuth.includes(":")) {
+    throw new Error('Invalid basic auth credentials: expected "user:pass"');
+  }
+  return `Basic ${Buffer.from(options.basicAuth, "utf8").toString("base64")}`;
+}
+
+export function isCredentialHeader(name: string): boolean {
+  return CREDENTIAL_HEADER_RE.test(name);
+}
+
+/**
+ * Custom headers for a request to `url`. `Authorization` and credential
+ * headers such as `Cookie` or `X-Api-Key` are only sent to `pageUrl`'s
+ * origin, so they never reach third-party scripts, images or cross-origin
+ * redirects; other headers, e.g. `Accept-Language`, go everywhere.
+ */
+export function originScopedHeaders(
+  options: RequestAuthOptions,
+  url: string,
+  pageUrl: string
+): Record<string, string> {
+  const sameOrigin = new URL(url).origin === new URL(pageUrl).origin;
+  const headers = Object.fromEntries(
+    Object.entries(options.headers ?? {}).filter(
+      ([name]) => sameOrigin || !isCredentialHeader(name)
+    )
+  );
+  const authorization = sameOrigin && authorizationHeader(options);
+  if (authorization) {
+    headers.Authorization = authorization;
+  }
+  return headers;
+}
+
+/**
+ * Describes the custom request headers for verbose logs: header names only,
+ * since values may be API keys, and the authorization scheme without the
+ * credentials.
+ */
+export function describeRequestHeaders(
+  options: RequestAuthOptions
+): string | undefined {
+  const parts = Object.keys(options.headers ?? {});
+  if (options.bearerToken) {
+    parts.push("Authorization: Bearer (redacted)");
+  } else if (options.basicAuth) {
+    parts.push("Authorization: Basic (redacted)");
+  }
+  return parts.length ? parts.join(", ") : undefined;
+}
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import type { Page } from "playwright";
+import { hasInteractions, runInteractions } from "./interactions";
+
+interface FakePageOptions {
+  /** Page height after each scroll */
+  heights?: number[];
+  /** Clicks before the control disappears */
+  clicksAvailable?: number;
+  selectorAppears?: boolean;
+}
+
+const globals = globalThis as unknown as Record<string, unknown>;
+let scrollHeight = 0;
+
+beforeEach(() => {
+  globals.document = {
+    documentElement: {
+      get scrollHeight() {
+        return scrollHeight;
+      },
+    },
+  };
+  globals.window = { scrollTo: () => undefined };
+});
+
+afterEach(() => {
+  Reflect.deleteProperty(globals, "document");
+  Reflect.deleteProperty(globals, "window");
+});
+
+/** Just enough of a Playwright page for the interaction steps */
+function fakePage(options: FakePageOptions = {}) {
+  const calls = { clicks: 0, scrolls: 0, waitedMs: 0 };
+  const heights = [...(options.heights ?? [])];
+  scrollHeight = 1000;
+  const page = {
+    evaluate: (fn: () => unknown) => {
+      const result = fn();
+      if (result === undefined) {
+        // The scroll step; the page grows to its next height
+        calls.scrolls += 1;
+        scrollHeight = heights.shift() ?? scrollHeight;
+      }
+      return Promise.resolve(result);
+    },
+    locator: () => ({
+      first: () => ({
+        click: () => {
+          calls.clicks += 1;
+          return Promise.resolve();
+        },
+        isVisible: () =>
+          Promise.resolve(calls.clicks < (options.clicksAvailable ?? 0)),
+      }),
+    }),
+    waitForLoadState: () => Promise.resolve(),
+    waitForSelector: () =>
+      options.selectorAppears === false
+        ? Promise.reject(new Error("timeout"))
+        : Promise.resolve(),
+    waitForTimeout: (ms: number) => {
+      calls.waitedMs += ms;
+      return Promise.resolve();
+    },
+  };
+  return { calls, page: page as unknown as Page };
+}
+
+function run(page: Page, interactions: Parameters<typeof runInteractions>[1]) {
+  const log: string[] = [];
+  const done = runInteractions(page, interactions, {
+    log: (message) => log.push(message),
+    timeoutMs: 1000,
+  });
+  return { done, log };
+}
+
+describe("runInteractions", () => {
+  it("scrolls until the page stops growing", async () => {
+    const { calls, page } = fakePage({ heights: [2000, 3000, 3000] });
+    const { done, log } = run(page, { scroll: true });
+    await done;
+    expect(calls.scrolls).toBe(3);
+    expect(log).toContain("Scroll 2: page height 2000px → 3000px");
+    expect(log.at(-1)).toBe("Page stopped growing after 3 scrolls");
+  });
+
+  it("caps scrolling at maxScrolls", async () => {
+    const { calls, page } = fakePage({ heights: [2000, 3000, 4000, 5000] });
+    const { done, log } = run(page, { maxScrolls: 2, scroll: true });
+    await done;
+    expect(calls.scrolls).toBe(2);
+    expect(log.at(-1)).toBe("Stopped scrolling after 2 scrolls");
+  });
+
+  it("clicks while the control is visible, up to maxClicks", async () => {
+    const gone = fakePage({ clicksAvailable: 2 });
+    const first = run(gone.page, { click: ".more" });
+    await first.done;
+    expect(gone.calls.clicks).toBe(2);
+    expect(first.log.at(-1)).toBe(".more gone after 2 clicks");
+
+    const endless = fakePage({ clicksAvailable: 100 });
+    await run(endless.page, { click: ".more", maxClicks: 3 }).done;
+    expect(endless.calls.clicks).toBe(3);
+  });
+
+  it("fails when the awaited selector never appears", async () => {
+    const { page } = fakePage({ selectorAppears: false });
+    await expect(run(page, { waitFor: "#feed" }).done).rejects.toThrow(
+      "Timed out after 1000ms waiting for #feed"
+    );
+  });
+
+  it("waits a fixed time last", async () => {
+    const { calls, page } = fakePage();
+    const { done, log } = run(page, { waitFor: "#feed", waitMs: 250 });
+    await done;
+    expect(calls.waitedMs).toBe(250);
+    expect(log).toEqual(["Waiting for #feed", "Found #feed", "Waiting 250ms"]);
+  });
+});
+
+describe("hasInteractions", () => {
+  it("ignores caps without the step they limit", () => {
+    expect(hasInteractions({ maxClicks: 5, maxScrolls: 5, waitMs: 0 })).toBe(
+      false
+    );
+    expect(hasInteractions({ scroll: true })).toBe(true);
+    expect(hasInteractions(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,150 @@
+import type { Page } from "playwright";
+
+/** Default caps for `--scroll` and `--click` */
+export const DEFAULT_MAX_SCROLLS = 20;
+export const DEFAULT_MAX_CLICKS = 10;
+/** How long to let the page settle after each scroll or click */
+const SETTLE_TIMEOUT_MS = 3000;
+
+/** Steps run on a headless page after it has loaded, in this order */
+export interface BrowserInteractions {
+  /** Wait until an element matching this selector appears */
+  waitFor?: string;
+  /** Scroll to the bottom until the page stops growing */
+  scroll?: boolean;
+  maxScrolls?: number;
+  /** Click this element repeatedly while it is visible, e.g. "Load more" */
+  click?: string;
+  maxClicks?: number;
+  /** Wait this long once everything else is done */
+  waitMs?: number;
+}
+
+interface InteractionContext {
+  timeoutMs: number;
+  log: (message: string) => void;
+}
+
+/** Whether any interaction is requested, so the page needs a browser */
+export function hasInteractions(interactions?: BrowserInteractions): boolean {
+  return Boolean(
+    interactions &&
+      (interactions.waitFor ||
+        interactions.scroll ||
+        interactions.click ||
+        interactions.waitMs)
+  );
+}
+
+/** Waits for network activity to die down, up to a short timeout */
+async function settle(page: Page): Promise<void> {
+  try {
+    await page.waitForLoadState("networkidle", { timeout: SETTLE_TIMEOUT_MS });
+  } catch {
+    // Pages that poll never go idle; carry on with what has loaded
+  }
+}
+
+async function waitForSelector(
+  page: Page,
+  selector: string,
+  { log, timeoutMs }: InteractionContext
+): Promise<void> {
+  log(`Waiting for ${selector}`);
+  try {
+    await page.waitForSelector(selector, { timeout: timeoutMs });
+  } catch (error) {
+    throw new Error(`Timed out after ${timeoutMs}ms waiting for ${selector}`, {
+      cause: error,
+    });
+  }
+  log(`Found ${selector}`);
+}
+
+async function scrollToEnd(
+  page: Page,
+  maxScrolls: number,
+  { log }: InteractionContext
+): Promise<void> {
+  const pageHeight = () =>
+    page.evaluate(() => document.documentElement.scrollHeight);
+  let height = await pageHeight();
+  for (let step = 1; step <= maxScrolls; step += 1) {
+    await page.evaluate(() =>
+      window.scrollTo(0, document.documentElement.scrollHeight)
+    );
+    await settle(page);
+    const next = await pageHeight();
+    log(`Scroll ${step}: page height ${height}px → ${next}px`);
+    if (next <= height) {
+      log(`Page stopped growing after ${step} scrolls`);
+      return;
+    }
+    height = next;
+  }
+  log(`Stopped scrolling after ${maxScrolls} scrolls`);
+}
+
+async function clickRepeatedly(
+  page: Page,
+  selector: string,
+  maxClicks: number,
+  { log, timeoutMs }: InteractionContext
+): Promise<void> {
+  const target = page.locator(selector).first();
+  for (let count = 1; count <= maxClicks; count += 1) {
+    if (!(await target.isVisible())) {
+      log(
+        count === 1
+          ? `${selector} not found, nothing to click`
+          : `${selector} gone after ${count - 1} clicks`
+      );
+      return;
+    }
+    try {
+      await target.click({ timeout: timeoutMs });
+    } catch (error) {
+      // It may have been detached or covered; keep what loaded so far
+      log(`Click ${count} on ${selector} failed: ${String(error)}`);
+      return;
+    }
+    log(`Clicked ${selector} (${count})`);
+    await settle(page);
+  }
+  log(`Stopped clicking ${selector} after ${maxClicks} clicks`);
+}
+
+/**
+ * Runs the requested interactions on a loaded page: wait for a selector,
+ * scroll until the page height stops growing, click a "load more" control
+ * until it disappears, then wait a fixed time. Scrolling and clicking stop at
+ * their caps. Only a missing `waitFor` element fails the fetch.
+ */
+export async function runInteractions(
+  page: Page,
+  interactions: BrowserInteractions,
+  context: InteractionContext
+): Promise<void> {
+  if (interactions.waitFor) {
+    await waitForSelector(page, interactions.waitFor, context);
+  }
+  if (interactions.scroll) {
+    await scrollToEnd(
+      page,
+      interactions.maxScrolls ?? DEFAULT_MAX_SCROLLS,
+      context
+    );
+  }
+  if (interactions.click) {
+    await clickRepeatedly(
+      page,
+      interactions.click,
+      interactions.maxClicks ?? DEFAULT_MAX_CLICKS,
+      context
+    );
+  }
+  if (interactions.waitMs) {
+    context.log(`Waiting ${interactions.waitMs}ms`);
+    await page.waitForTimeout(interactions.waitMs);
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+import { describeStrategy, intoMarkdown } from "./into-markdown";
+
+const ARTICLE = `
+<html>
+<head>
+  <title>Library Article</title>
+  <meta name="author" content="Jane Doe">
+</head>
+<body>
+  <article>
+    <h1>Library Article</h1>
+    <p>Converted without a network fetch. See <a href="/next">the next page</a>.</p>
+  </article>
+</body>
+</html>`;
+
+describe("intoMarkdown with HTML input", () => {
+  it("converts HTML relative to baseUrl", async () => {
+    const result = await intoMarkdown(ARTICLE, {
+      baseUrl: "https://example.com/docs/",
+    });
+    expect(result.finalUrl).toBe("https://example.com/docs/");
+    expect(result.metadata.title).toBe("Library Article");
+    expect(result.metadata.author).toBe("Jane Doe");
+    expect(result.links).toEqual(["https://example.com/next"]);
+    expect(result.markdown).toContain(
+      "[the next page](https://example.com/next)"
+    );
+    expect(result.output.startsWith("---\n")).toBe(true);
+    expect(result.output).toContain('source: "https://example.com/docs/"');
+    expect(result.strategy).toBe("local");
+  });
+
+  it("applies metadata overrides", async () => {
+    const result = await intoMarkdown(ARTICLE, {
+      baseUrl: "https://example.com/",
+      metadata: { title: "Feed Title", date: "2025-01-06" },
+    });
+    expect(result.metadata.title).toBe("Feed Title");
+    expect(result.output).toContain('date: "2025-01-06"');
+  });
+
+  it("requires a baseUrl for HTML input", async () => {
+    await expect(intoMarkdown(ARTICLE)).rejects.toThrow("baseUrl");
+  });
+});
+
+describe("describeStrategy", () => {
+  it("prefixes auto mode", () => {
+    expect(describeStrategy("auto", "static")).toBe("auto>static");
+    expect(describeStrategy("auto", "headless", " > ")).toBe("auto > headless");
+    expect(describeStrategy("static", "static")).toBe("static");
+  });
+
+  it("appends the converter", () => {
+    expect(describeStrategy("auto", "static", ">", "json")).toBe(
+      "auto>static>json"
+    );
+    expect(describeStrategy(undefined, "local", ">", "pdf")).toBe("local>pdf");
+  });
+});
@@ -0,0 +1,256 @@
+import type { CapturedFiles } from "./capture";
+import { decodeBody } from "./charset";
+import {
+  type ContentConverter,
+  convertDocument,
+  documentConverterFor,
+} from "./documents";
+import {
+  type FetchOptions,
+  type FetchResult,
+  fetchPage,
+  htmlToMarkdownPipeline,
+} from "./fetcher";
+import { readLocalFile } from "./local";
+import { buildFrontmatter, parseFrontmatter } from "./metadata";
+import { isPdf, pdfToMarkdown } from "./pdf";
+
+const LARGE_OUTPUT_BYTES = 100_000;
+const HTML_INPUT_RE = /^\s*</;
+
+/** How the page was obtained; `local` for HTML strings and local files */
+export type FetchStrategy = FetchResult["strategyUsed"] | "local";
+
+/** Frontmatter fields supplied by the caller, e.g. from a feed item */
+export interface MetadataOverrides {
+  title?: string;
+  author?: string;
+  date?: string;
+}
+
+export interface IntoMarkdownOptions extends FetchOptions {
+  /**
+   * Base URL for resolving relative links in local input. Required for HTML
+   * strings; defaults to the file's own URL for `file://` input.
+   */
+  baseUrl?: string;
+  /** Fields that take precedence over extracted metadata */
+  metadata?: MetadataOverrides;
+}
+
+export interface IntoMarkdownResult {
+  /** The requested URL, or the base URL for HTML input */
+  url: string;
+  finalUrl: string;
+  /** Frontmatter plus markdown body, exactly as the CLI prints it */
+  output: string;
+  /** Markdown body without frontmatter */
+  markdown: string;
+  /** Every frontmatter field except `strategy` and `source` */
+  metadata: Record<string, string>;
+  /** Strategy as written to frontmatter, e.g. `auto>static` */
+  strategy: string;
+  strategyUsed: FetchStrategy;
+  /** Converter used instead of the HTML pipeline, e.g. `json` */
+  converter?: ContentConverter;
+  /** Paths of the screenshot and PDF saved from the rendered page */
+  captures?: CapturedFiles;
+  fromCache: boolean;
+  markdownTokens?: number;
+  links: string[];
+  warnings: string[];
+  timing: { startedAt: string; durationMs: number };
+}
+
+/**
+ * Formats a strategy for frontmatter (`auto>static`) or, with `separator`
+ * set to `" > "`, for display (`auto > static`). A converter that replaced
+ * the HTML pipeline comes last (`auto>static>json`).
+ */
+export function describeStrategy(
+  mode: FetchOptions["mode"],
+  strategyUsed: FetchStrategy,
+  separator = ">",
+  converter?: ContentConverter
+): string {
+  const steps =
+    (mode ?? "auto") === "auto" && strategyUsed !== "local"
+      ? ["auto", strategyUsed]
+      : [strategyUsed];
+  return [...steps, ...(converter ? [converter] : [])].join(separator);
+}
+
+function largeOutputWarning(output: string): string | undefined {
+  const size = Buffer.byteLength(output, "utf8");
+  if (size <= LARGE_OUTPUT_BYTES) {
+    return;
+  }
+  return `Output is ${Math.round(size / 1024)}KB. Large documents may exceed LLM context limits.`;
+}
+
+function definedFields(
+  ...sources: Record<string, string | undefined>[]
+): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source)) {
+      if (value) {
+        fields[key] = value;
+      }
+    }
+  }
+  return fields;
+}
+
+type PageContent = Omit<FetchResult, "strategyUsed"> & {
+  strategyUsed: FetchStrategy;
+};
+
+async function convertLocalHtml(
+  html: string,
+  baseUrl: string,
+  options: IntoMarkdownOptions
+): Promise<PageContent> {
+  const converted = await htmlToMarkdownPipeline(html, baseUrl, options);
+  return {
+    ...converted,
+    finalUrl: baseUrl,
+    fromCache: false,
+    strategyUsed: "local",
+  };
+}
+
+async function convertLocalPdf(
+  data: Uint8Array,
+  fileUrl: string
+): Promise<PageContent> {
+  const converted = await pdfToMarkdown(data);
+  const { extractMarkdownLinks } = await import("./links");
+  return {
+    markdown: converted.markdown,
+    metadata: converted.metadata,
+    links: extractMarkdownLinks(converted.markdown),
+    finalUrl: fileUrl,
+    fromCache: false,
+    strategyUsed: "local",
+    converter: "pdf",
+  };
+}
+
+/** Reads a local file with the converter its extension calls for */
+async function convertLocalFile(
+  fileUrl: string,
+  options: IntoMarkdownOptions
+): Promise<PageContent> {
+  const buffer = await readLocalFile(fileUrl);
+  if (isPdf(undefined, buffer)) {
+    return convertLocalPdf(buffer, fileUrl);
+  }
+  const text = decodeBody(buffer, undefined, options.encoding).text;
+  const converter = documentConverterFor(undefined, fileUrl);
+  if (!converter) {
+    return convertLocalHtml(text, options.baseUrl ?? fileUrl, options);
+  }
+  const { extractMarkdownLinks } = await import("./links");
+  const converted = convertDocument(converter, text, fileUrl);
+  return {
+    ...converted,
+    links: converter === "text" ? extractMarkdownLinks(converted.markdown) : [],
+    finalUrl: fileUrl,
+    fromCache: false,
+    strategyUsed: "local",
+    converter,
+  };
+}
+
+function buildResult(
+  url: string,
+  content: PageContent,
+  options: IntoMarkdownOptions,
+  startedAt: number,
+  started: number
+): IntoMarkdownResult {
+  const strategy = describeStrategy(
+    options.mode,
+    content.strategyUsed,
+    ">",
+    content.converter
+  );
+  const { fields: serverFields, body } = parseFrontmatter(content.markdown);
+  const metadata = definedFields(
+    serverFields,
+    { ...content.metadata },
+    { ...options.metadata }
+  );
+
+  const frontmatter = buildFrontmatter({
+    ...metadata,
+    source: content.finalUrl,
+    strategy,
+    extraFields: serverFields,
+  });
+  const output = `${frontmatter}\n\n${body}`.trim();
+  const warning = largeOutputWarning(output);
+
+  return {
+    url,
+    finalUrl: content.finalUrl,
+    output,
+    markdown: body.trim(),
+    metadata,
+    strategy,
+    strategyUsed: content.strategyUsed,
+    converter: content.converter,
+    captures: content.captures,
+    fromCache: content.fromCache,
+    markdownTokens: content.markdownTokens,
+    links: content.links,
+    warnings: warning ? [warning] : [],
+    timing: {
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Math.round(performance.now() - started),
+    },
+  };
+}
+
+/**
+ * Converts an HTML string to markdown with frontmatter, without any network
+ * access. Relative links and images are resolved against `options.baseUrl`.
+ */
+export async function htmlToMarkdown(
+  html: string,
+  options: IntoMarkdownOptions & { baseUrl: string }
+): Promise<IntoMarkdownResult> {
+  const startedAt = Date.now();
+  const started = performance.now();
+  const content = await convertLocalHtml(html, options.baseUrl, options);
+  return buildResult(options.baseUrl, content, options, startedAt, started);
+}
+
+/**
+ * Converts a URL, a `file://` URL or an HTML string to markdown with
+ * frontmatter. Input starting with `<` is treated as HTML (see
+ * `htmlToMarkdown`); `file://` input is read from disk; anything else is
+ * fetched with `fetchPage`.
+ */
+export async function intoMarkdown(
+  input: string,
+  options: IntoMarkdownOptions = {}
+): Promise<IntoMarkdownResult> {
+  if (HTML_INPUT_RE.test(input)) {
+    if (!options.baseUrl) {
+      throw new Error("Converting an HTML string requires options.baseUrl");
+    }
+    return htmlToMarkdown(input, { ...options, baseUrl: options.baseUrl });
+  }
+
+  const startedAt = Date.now();
+  const started = performance.now();
+  let content: PageContent;
+  if (input.startsWith("file:")) {
+    content = await convertLocalFile(input, options);
+  } else {
+    content = await fetchPage(input, options);
+  }
+  return buildResult(input, content, options, startedAt, started);
+}
@@ -0,0 +1,48 @@
+import { load } from "cheerio";
+
+import { toAbsoluteUrl } from "./utils";
+
+const MARKDOWN_LINK_RE = /\]\((https?:\/\/[^\s)]+)(?:\s+"[^"]*")?\)/g;
+
+function uniqueHttpUrls(candidates: (string | undefined)[]): string[] {
+  const seen = new Set<string>();
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      const url = new URL(candidate);
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        continue;
+      }
+      url.hash = "";
+      seen.add(url.toString());
+    } catch {
+      // Ignore unparseable hrefs
+    }
+  }
+  return [...seen];
+}
+
+/**
+ * Collects absolute http(s) link targets from an HTML fragment, without
+ * fragments and in document order.
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const $ = load(html);
+  return uniqueHttpUrls(
+    $("a[href]")
+      .toArray()
+      .map((el) => toAbsoluteUrl($(el).attr("href"), baseUrl))
+  );
+}
+
+/**
+ * Collects absolute http(s) link targets from markdown, for pages whose
+ * markdown came from the server or the cache rather than the HTML pipeline.
+ */
+export function extractMarkdownLinks(markdown: string): string[] {
+  return uniqueHttpUrls(
+    Array.from(markdown.matchAll(MARKDOWN_LINK_RE), (match) => match[1])
+  );
+}
@@ -0,0 +1,90 @@
+import { statSync } from "node:fs";
+import { readdir, readFile } from "node:fs/promises";
+import { extname, join, relative, resolve, sep } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const CONVERTIBLE_FILE_RE = /\.(?:html?|xhtml|pdf)$/i;
+
+export type LocalInput =
+  | { kind: "file"; url: string }
+  | { kind: "directory"; path: string };
+
+/**
+ * Resolves a CLI argument to a local file or directory. Accepts `file://`
+ * URLs and paths that exist on disk; returns null for anything else so the
+ * caller can treat it as a web URL.
+ */
+export function resolveLocalInput(input: string): LocalInput | null {
+  let path: string;
+  if (input.startsWith("file:")) {
+    path = fileURLToPath(input);
+  } else if (input.startsWith("http://") || input.startsWith("https://")) {
+    return null;
+  } else {
+    path = resolve(input);
+  }
+
+  let isDirectory: boolean;
+  try {
+    isDirectory = statSync(path).isDirectory();
+  } catch {
+    if (input.startsWith("file:")) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return null;
+  }
+  return isDirectory
+    ? { kind: "directory", path }
+    : { kind: "file", url: pathToFileURL(path).href };
+}
+
+/** Lists HTML and PDF files below `dir` as sorted, `/`-separated paths. */
+export async function listConvertibleFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && CONVERTIBLE_FILE_RE.test(entry.name))
+    .map((entry) =>
+      relative(dir, join(entry.parentPath, entry.name)).split(sep).join("/")
+    )
+    .sort();
+}
+
+/** `docs/intro.html` → `docs/intro` */
+export function stripExtension(relativePath: string): string {
+  const extension = extname(relativePath);
+  return relativePath.slice(0, relativePath.length - extension.length);
+}
+
+/**
+ * Base URL for a file inside a converted directory: the file's path
+ * resolved against `baseUrl` when given, otherwise its own file:// URL.
+ */
+export function baseUrlForFile(
+  root: string,
+  relativePath: string,
+  baseUrl?: string
+): string {
+  if (baseUrl) {
+    return new URL(relativePath, baseUrl).href;
+  }
+  return pathToFileURL(join(root, relativePath)).href;
+}
+
+export async function readLocalFile(fileUrl: string): Promise<Buffer> {
+  const path = fileURLToPath(fileUrl);
+  try {
+    return await readFile(path);
+  } catch (error) {
+    throw new Error(`Unable to read "${path}": ${String(error)}`, {
+      cause: error,
+    });
+  }
+}
+
+export async function readStdin(): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
@@ -0,0 +1,183 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { normalizeUrl } from "./batch";
+import { closeBrowser } from "./browser";
+import {
+  type IntoMarkdownOptions,
+  type IntoMarkdownResult,
+  intoMarkdown,
+} from "./into-markdown";
+import { buildFrontmatter } from "./metadata";
+import { extractSection, listHeadings } from "./sections";
+
+/** Resolves the server-wide fetch options (config profile, flags) for a URL */
+export type McpOptionsResolver = (url: string) => IntoMarkdownOptions;
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: { type: "text"; text: string }[];
+  isError?: boolean;
+}
+
+const fetchInputSchema = {
+  url: z.string().describe("Web page URL to fetch"),
+  js: z
+    .enum(["auto", "static", "headless"])
+    .optional()
+    .describe("Rendering strategy (default: auto-detect)"),
+  raw: z
+    .boolean()
+    .optional()
+    .describe("Skip content extraction, convert the entire page"),
+  strip_links: z
+    .boolean()
+    .optional()
+    .describe("Remove hyperlinks, keep only anchor text"),
+  exclude: z
+    .array(z.string())
+    .optional()
+    .describe("CSS selectors to remove before conversion"),
+  no_cache: z.boolean().optional().describe("Bypass the response cache"),
+};
+
+interface FetchInput {
+  url: string;
+  js?: IntoMarkdownOptions["mode"];
+  raw?: boolean;
+  strip_links?: boolean;
+  exclude?: string[];
+  no_cache?: boolean;
+}
+
+function text(value: string, isError = false): ToolResult {
+  return { content: [{ text: value, type: "text" }], isError };
+}
+
+function frontmatterFor(result: IntoMarkdownResult): string {
+  return buildFrontmatter({
+    ...result.metadata,
+    extraFields: result.metadata,
+    source: result.finalUrl,
+    strategy: result.strategy,
+  });
+}
+
+function convert(
+  input: FetchInput,
+  resolveOptions: McpOptionsResolver
+): Promise<IntoMarkdownResult> {
+  const url = normalizeUrl(input.url);
+  const options = resolveOptions(url);
+  return intoMarkdown(url, {
+    ...options,
+    mode: input.js ?? options.mode,
+    raw: input.raw ?? options.raw,
+    stripLinks: input.strip_links ?? options.stripLinks,
+    excludeSelectors: input.exclude ?? options.excludeSelectors,
+    noCache: input.no_cache ?? options.noCache,
+    reuseBrowser: true,
+  });
+}
+
+/** Runs a tool handler, reporting failures as tool errors instead of throwing */
+async function guard(handler: () => Promise<ToolResult>): Promise<ToolResult> {
+  try {
+    return await handler();
+  } catch (error) {
+    return text(error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+/**
+ * Builds an MCP server exposing `fetch_markdown`, `extract_section` and
+ * `list_links`. Every tool goes through `intoMarkdown`, so results share the
+ * response cache and, with `reuseBrowser`, one warm headless browser.
+ */
+export function createMcpServer(
+  resolveOptions: McpOptionsResolver,
+  version: string
+): McpServer {
+  const server = new McpServer({ name: "into-md", version });
+
+  server.registerTool(
+    "fetch_markdown",
+    {
+      description:
+        "Fetch a web page and return its main content as markdown. The YAML frontmatter carries the title, author, source URL and the fetch strategy used.",
+      inputSchema: fetchInputSchema,
+    },
+    (input) =>
+      guard(async () => text((await convert(input, resolveOptions)).output))
+  );
+
+  server.registerTool(
+    "extract_section",
+    {
+      description:
+        "Fetch a web page and return only the section under a heading (case-insensitive), with the page's frontmatter.",
+      inputSchema: {
+        ...fetchInputSchema,
+        heading: z.string().describe("Heading text of the section to return"),
+      },
+    },
+    ({ heading, ...input }) =>
+      guard(async () => {
+        const result = await convert(input, resolveOptions);
+        const section = extractSection(result.markdown, heading);
+        if (!section) {
+          const headings = listHeadings(result.markdown);
+          return text(
+            `No heading matching "${heading}" on ${result.finalUrl}. Available headings: ${
+              headings.length ? headings.join(" | ") : "(none)"
+            }`,
+            true
+          );
+        }
+        return text(`${frontmatterFor(result)}\n\n${section}`);
+      })
+  );
+
+  server.registerTool(
+    "list_links",
+    {
+      description:
+        "Fetch a web page and list the absolute links found in its main content, as JSON.",
+      inputSchema: fetchInputSchema,
+    },
+    (input) =>
+      guard(async () => {
+        const result = await convert(input, resolveOptions);
+        const payload = {
+          source: result.finalUrl,
+          strategy: result.strategy,
+          metadata: result.metadata,
+          links: result.links,
+        };
+        return text(JSON.stringify(payload, null, 2));
+      })
+  );
+
+  return server;
+}
+
+/**
+ * Serves the into-md tools over stdio until the client disconnects, then
+ * closes the shared browser.
+ */
+export async function runMcpServer(
+  resolveOptions: McpOptionsResolver,
+  version: string
+): Promise<void> {
+  const server = createMcpServer(resolveOptions, version);
+  const shutdown = () => {
+    Promise.allSettled([server.close(), closeBrowser()]).finally(() =>
+      process.exit(0)
+    );
+  };
+  process.stdin.once("end", shutdown);
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await server.connect(new StdioServerTransport());
+}
@@ -1,4 +1,4 @@
-interface FrontmatterInput {
+export interface FrontmatterInput {
   title?: string;
   description?: string;
   author?: string;
@@ -0,0 +1,159 @@
+import { describe, expect, it } from "bun:test";
+import { isPdf, parsePdfDate, pdfToMarkdown } from "./pdf";
+
+interface PdfLine {
+  text: string;
+  size: number;
+  x?: number;
+  y: number;
+}
+
+const PDF_ESCAPE_RE = /([()\\])/g;
+
+/** Builds a minimal PDF with one Helvetica text run per line */
+function makePdf(
+  pages: PdfLine[][],
+  info: Record<string, string> = {}
+): Uint8Array {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+  objects[3] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = `<< ${Object.entries(info)
+    .map(([key, value]) => `/${key} (${value})`)
+    .join(" ")} >>`;
+  let next = 5;
+  for (const lines of pages) {
+    const stream = lines
+      .map(
+        (line) =>
+          `BT /F1 ${line.size} Tf ${line.x ?? 72} ${line.y} Td (${line.text.replace(PDF_ESCAPE_RE, "\\$1")}) Tj ET`
+      )
+      .join("\n");
+    const contentId = next++;
+    const pageId = next++;
+    objects[contentId] =
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Contents ${contentId} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`;
+    pageIds.push(pageId);
+  }
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = out.length;
+    out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = out.length;
+  out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return new Uint8Array(Buffer.from(out, "latin1"));
+}
+
+const body = (text: string, y: number, x?: number): PdfLine => ({
+  size: 11,
+  text,
+  x,
+  y,
+});
+
+describe("pdfToMarkdown", () => {
+  it("infers headings, paragraphs and lists", async () => {
+    const { markdown, pageCount } = await pdfToMarkdown(
+      makePdf([
+        [
+          { size: 24, text: "Annual Report", y: 720 },
+          { size: 16, text: "Summary", y: 680 },
+          body("Revenue grew this year across all", 650),
+          body("regions and product lines.", 636),
+          body("Costs were flat.", 600),
+          // 0x95 is the bullet in WinAnsiEncoding
+          body("\x95 First point", 570),
+          body("\x95 Second point that", 556),
+          body("wraps onto a new line", 542, 84),
+          body("1. Numbered", 520),
+        ],
+      ])
+    );
+    expect(pageCount).toBe(1);
+    expect(markdown).toBe(
+      [
+        "# Annual Report",
+        "## Summary",
+        "Revenue grew this year across all regions and product lines.",
+        "Costs were flat.",
+        "- First point\n- Second point that wraps onto a new line\n1. Numbered",
+      ].join("\n\n")
+    );
+  });
+
+  it("joins hyphenated words and separates pages", async () => {
+    const { markdown } = await pdfToMarkdown(
+      makePdf([
+        [body("A long docu-", 700), body("ment continues.", 686)],
+        [body("Second page.", 700)],
+      ])
+    );
+    expect(markdown).toBe("A long document continues.\n\n---\n\nSecond page.");
+  });
+
+  it("reads document info into metadata", async () => {
+    const { metadata } = await pdfToMarkdown(
+      makePdf([[body("Text", 700)]], {
+        Author: "Ann Lee",
+        CreationDate: "D:20240315120000Z",
+        Subject: "Quarterly figures",
+        Title: "Q1 Report",
+      })
+    );
+    expect(metadata).toEqual({
+      author: "Ann Lee",
+      date: "2024-03-15",
+      description: "Quarterly figures",
+      title: "Q1 Report",
+    });
+  });
+
+  it("falls back to the first heading for the title", async () => {
+    const { metadata } = await pdfToMarkdown(
+      makePdf([
+        [
+          { size: 20, text: "Spec", y: 700 },
+          body("Body text of the spec", 670),
+        ],
+      ])
+    );
+    expect(metadata.title).toBe("Spec");
+  });
+
+  it("rejects data that is not a PDF", async () => {
+    await expect(
+      pdfToMarkdown(new TextEncoder().encode("<html></html>"))
+    ).rejects.toThrow("Unable to read PDF");
+  });
+});
+
+describe("isPdf", () => {
+  it("matches by content type or magic bytes", () => {
+    const empty = new Uint8Array();
+    expect(isPdf("application/pdf", empty)).toBe(true);
+    expect(isPdf("application/x-pdf; name=a.pdf", empty)).toBe(true);
+    expect(isPdf("application/octet-stream", makePdf([]))).toBe(true);
+    expect(isPdf("text/html", new TextEncoder().encode("<p>"))).toBe(false);
+  });
+});
+
+describe("parsePdfDate", () => {
+  it("keeps the calendar date", () => {
+    expect(parsePdfDate("D:20240315120000+01'00'")).toBe("2024-03-15");
+    expect(parsePdfDate("D:2023")).toBe("2023-01-01");
+    expect(parsePdfDate("yesterday")).toBeUndefined();
+    expect(parsePdfDate(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,294 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { CacheMetadata } from "./cache";
+
+const PDF_CONTENT_TYPE_RE = /^application\/(?:x-)?pdf\b/i;
+const PDF_MAGIC = "%PDF-";
+const PDF_DATE_RE = /^(?:D:)?(\d{4})(\d{2})?(\d{2})?/;
+const BULLET_RE = /^[•◦▪▫‣⁃●○■□·*–-]\s+/;
+const ORDERED_RE = /^(\d{1,3})[.)]\s+/;
+const HYPHENATED_RE = /\p{Ll}-$/u;
+const LOWERCASE_START_RE = /^\p{Ll}/u;
+const WHITESPACE_RE = /\s+/g;
+
+/** Lines more than this much larger than body text become headings */
+const HEADING_SIZE_RATIO = 1.15;
+/** Longer lines are paragraphs even when set in a large font */
+const MAX_HEADING_LENGTH = 150;
+/** A vertical gap above this many font sizes starts a new paragraph */
+const PARAGRAPH_GAP_RATIO = 1.8;
+
+/** Thrown when pdf.js cannot open a document */
+export class UnreadablePdfError extends Error {
+  constructor(error: unknown) {
+    super(
+      `Unable to read PDF: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+    this.name = "UnreadablePdfError";
+  }
+}
+
+interface TextLine {
+  text: string;
+  /** Largest font size on the line */
+  size: number;
+  x: number;
+  /** Baseline, measured from the bottom of the page */
+  y: number;
+}
+
+type Block =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "list"; marker: string; text: string; x: number };
+
+export interface PdfConversion {
+  markdown: string;
+  metadata: CacheMetadata;
+  pageCount: number;
+}
+
+/** Whether a response or file is a PDF, by content type or magic bytes */
+export function isPdf(contentType: string | undefined, bytes: Uint8Array) {
+  if (contentType && PDF_CONTENT_TYPE_RE.test(contentType)) {
+    return true;
+  }
+  return (
+    bytes.length >= PDF_MAGIC.length &&
+    new TextDecoder("latin1").decode(bytes.subarray(0, PDF_MAGIC.length)) ===
+      PDF_MAGIC
+  );
+}
+
+/** `D:20240315120000Z` → `2024-03-15`, the format feeds use */
+export function parsePdfDate(value: unknown): string | undefined {
+  const match = typeof value === "string" ? PDF_DATE_RE.exec(value) : null;
+  if (!match) {
+    return;
+  }
+  return [match[1], match[2] ?? "01", match[3] ?? "01"].join("-");
+}
+
+function infoString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** Joins a page's text items into lines by baseline, left to right */
+function groupLines(items: TextItem[]): TextLine[] {
+  const lines: (TextLine & { end: number })[] = [];
+  let current: (TextLine & { end: number }) | undefined;
+  for (const item of items) {
+    const [, , c = 0, d = 0, x = 0, y = 0] = item.transform;
+    const size = Math.hypot(c, d);
+    if (!item.str) {
+      continue;
+    }
+    if (current && Math.abs(current.y - y) <= Math.max(size, 1) * 0.5) {
+      const gap = x - current.end;
+      const needsSpace =
+        gap > size * 0.2 &&
+        !current.text.endsWith(" ") &&
+        !item.str.startsWith(" ");
+      current.text += needsSpace ? ` ${item.str}` : item.str;
+      current.end = x + item.width;
+      if (item.str.trim()) {
+        current.size = Math.max(current.size, size);
+      }
+      continue;
+    }
+    current = { end: x + item.width, size, text: item.str, x, y };
+    lines.push(current);
+  }
+  return lines
+    .map(({ end: _end, ...line }) => ({
+      ...line,
+      text: line.text.replace(WHITESPACE_RE, " ").trim(),
+    }))
+    .filter((line) => line.text);
+}
+
+const roundSize = (size: number) => Math.round(size * 2) / 2;
+
+/** The most common font size, weighted by characters */
+function bodySize(lines: TextLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = roundSize(line.size);
+    counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestCount = -1;
+  for (const [size, count] of counts) {
+    if (count > bestCount) {
+      best = size;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Maps each heading font size to a level: largest is 1, capped at 3 */
+function headingLevels(lines: TextLine[], body: number): Map<number, number> {
+  const sizes = [
+    ...new Set(
+      lines
+        .map((line) => roundSize(line.size))
+        .filter((size) => size > body * HEADING_SIZE_RATIO)
+    ),
+  ].sort((a, b) => b - a);
+  return new Map(sizes.map((size, index) => [size, Math.min(index + 1, 3)]));
+}
+
+function appendText(text: string, next: string): string {
+  if (HYPHENATED_RE.test(text) && LOWERCASE_START_RE.test(next)) {
+    return `${text.slice(0, -1)}${next}`;
+  }
+  return `${text} ${next}`;
+}
+
+function listItem(line: TextLine): Block | null {
+  const ordered = ORDERED_RE.exec(line.text);
+  if (ordered) {
+    return {
+      kind: "list",
+      marker: `${ordered[1]}.`,
+      text: line.text.slice(ordered[0].length),
+      x: line.x,
+    };
+  }
+  const bullet = BULLET_RE.exec(line.text);
+  if (bullet) {
+    return {
+      kind: "list",
+      marker: "-",
+      text: line.text.slice(bullet[0].length),
+      x: line.x,
+    };
+  }
+  return null;
+}
+
+/**
+ * Turns a page's lines into headings, paragraphs and list items. Lines join
+ * the previous block unless the vertical gap, font size or a list marker
+ * says otherwise; indented lines continue the list item above them.
+ */
+function pageBlocks(lines: TextLine[], levels: Map<number, number>): Block[] {
+  const blocks: Block[] = [];
+  let previous: TextLine | undefined;
+  for (const line of lines) {
+    const last = blocks.at(-1);
+    const gap = previous ? previous.y - line.y : 0;
+    const isNewBlock =
+      !(last && previous) || gap > line.size * PARAGRAPH_GAP_RATIO || gap < 0;
+    const level = levels.get(roundSize(line.size));
+    previous = line;
+
+    if (level && line.text.length <= MAX_HEADING_LENGTH) {
+      if (last?.kind === "heading" && last.level === level && !isNewBlock) {
+        last.text = `${last.text} ${line.text}`;
+      } else {
+        blocks.push({ kind: "heading", level, text: line.text });
+      }
+      continue;
+    }
+    const item = listItem(line);
+    if (item) {
+      blocks.push(item);
+      continue;
+    }
+    if (isNewBlock || last?.kind === "heading") {
+      blocks.push({ kind: "paragraph", text: line.text });
+    } else if (last?.kind === "list" && line.x <= last.x) {
+      blocks.push({ kind: "paragraph", text: line.text });
+    } else if (last) {
+      last.text = appendText(last.text, line.text);
+    }
+  }
+  return blocks;
+}
+
+function renderBlocks(blocks: Block[]): string {
+  let markdown = "";
+  for (const [index, block] of blocks.entries()) {
+    const previous = blocks[index - 1];
+    if (previous) {
+      markdown +=
+        previous.kind === "list" && block.kind === "list" ? "\n" : "\n\n";
+    }
+    if (block.kind === "heading") {
+      markdown += `${"#".repeat(block.level)} ${block.text}`;
+    } else if (block.kind === "list") {
+      markdown += `${block.marker} ${block.text}`;
+    } else {
+      markdown += block.text;
+    }
+  }
+  return markdown;
+}
+
+/**
+ * Converts a PDF to markdown from its text layer. Headings are inferred from
+ * font sizes larger than the body text, paragraphs from line spacing, and
+ * list items from bullet and number markers; pages are separated by `---`.
+ * Title, author, subject and creation date come from the document info.
+ * Scanned PDFs without a text layer produce no text.
+ */
+export async function pdfToMarkdown(data: Uint8Array): Promise<PdfConversion> {
+  const { getDocument, VerbosityLevel } = await import(
+    "pdfjs-dist/legacy/build/pdf.mjs"
+  );
+  let document: Awaited<ReturnType<typeof getDocument>["promise"]>;
+  try {
+    document = await getDocument({
+      // pdf.js detaches the buffer it is given
+      data: new Uint8Array(data),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      verbosity: VerbosityLevel.ERRORS,
+    }).promise;
+  } catch (error) {
+    throw new UnreadablePdfError(error);
+  }
+
+  try {
+    const pages: TextLine[][] = [];
+    for (let number = 1; number <= document.numPages; number += 1) {
+      const page = await document.getPage(number);
+      const content = await page.getTextContent();
+      pages.push(
+        groupLines(
+          content.items.filter((item): item is TextItem => "str" in item)
+        )
+      );
+      page.cleanup();
+    }
+
+    const body = bodySize(pages.flat());
+    const levels = headingLevels(pages.flat(), body);
+    const pageBlocksList = pages.map((lines) => pageBlocks(lines, levels));
+    const markdown = pageBlocksList
+      .map(renderBlocks)
+      .filter(Boolean)
+      .join("\n\n---\n\n");
+
+    const info: Record<string, unknown> = Object.fromEntries(
+      Object.entries((await document.getMetadata()).info)
+    );
+    const firstHeading = pageBlocksList
+      .flat()
+      .find((block) => block.kind === "heading");
+    return {
+      markdown,
+      metadata: {
+        title: infoString(info.Title) ?? firstHeading?.text,
+        author: infoString(info.Author),
+        description: infoString(info.Subject),
+        date: parsePdfDate(info.CreationDate),
+      },
+      pageCount: document.numPages,
+    };
+  } finally {
+    await document.destroy();
+  }
+}
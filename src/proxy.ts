@@ -0,0 +1,155 @@
+import type { Dispatcher } from "undici";
+
+/** Schemes both undici's ProxyAgent and Chromium understand */
+const PROXY_PROTOCOLS = new Set(["http:", "https:", "socks5:"]);
+const WILDCARD_PREFIX_RE = /^\*?\./;
+const TRAILING_SLASH_RE = /\/$/;
+
+/** Proxy for one request, as given to fetch and Playwright */
+export interface ResolvedProxy {
+  /** Full proxy URL, including any credentials */
+  url: string;
+  /** NO_PROXY entries, passed on to Playwright as its bypass list */
+  bypass: string[];
+}
+
+type Env = Record<string, string | undefined>;
+
+function envValue(env: Env, name: string): string | undefined {
+  return env[name] || env[name.toLowerCase()] || undefined;
+}
+
+function parseNoProxy(env: Env): string[] {
+  return (envValue(env, "NO_PROXY") ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether a NO_PROXY list exempts `target`. Entries match the host and its
+ * subdomains (`example.com`, `.example.com`), optionally with a port, and `*`
+ * exempts everything.
+ */
+export function isProxyBypassed(target: URL, noProxy: string[]): boolean {
+  const host = target.hostname.toLowerCase();
+  const port = target.port || (target.protocol === "https:" ? "443" : "80");
+  return noProxy.some((entry) => {
+    if (entry === "*") {
+      return true;
+    }
+    const [entryHost = "", entryPort] = entry.split(":");
+    if (entryPort && entryPort !== port) {
+      return false;
+    }
+    const domain = entryHost.replace(WILDCARD_PREFIX_RE, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Picks the proxy for `targetUrl`: the explicit `--proxy` value, else
+ * HTTPS_PROXY or HTTP_PROXY by scheme, else ALL_PROXY. NO_PROXY applies to
+ * all of them.
+ */
+export function resolveProxy(
+  targetUrl: string,
+  explicit?: string,
+  env: Env = process.env
+): ResolvedProxy | undefined {
+  const target = new URL(targetUrl);
+  const url =
+    explicit ||
+    envValue(
+      env,
+      target.protocol === "https:" ? "HTTPS_PROXY" : "HTTP_PROXY"
+    ) ||
+    envValue(env, "ALL_PROXY");
+  if (!url) {
+    return;
+  }
+  const bypass = parseNoProxy(env);
+  if (isProxyBypassed(target, bypass)) {
+    return;
+  }
+  const withScheme = url.includes("://") ? url : `http://${url}`;
+  assertSupportedProxy(withScheme);
+  return { url: withScheme, bypass };
+}
+
+function assertSupportedProxy(proxyUrl: string): void {
+  let protocol: string;
+  try {
+    ({ protocol } = new URL(proxyUrl));
+  } catch (error) {
+    throw new Error(`Invalid proxy URL: ${redactProxyUrl(proxyUrl)}`, {
+      cause: error,
+    });
+  }
+  if (!PROXY_PROTOCOLS.has(protocol)) {
+    throw new Error(
+      `Unsupported proxy scheme "${protocol.slice(0, -1)}" in ${redactProxyUrl(proxyUrl)}; use http://, https:// or socks5://`
+    );
+  }
+}
+
+/** The proxy URL with credentials masked, safe for logs */
+export function redactProxyUrl(proxyUrl: string): string {
+  try {
+    const parsed = new URL(proxyUrl);
+    if (parsed.username || parsed.password) {
+      parsed.username = "***";
+      parsed.password = "";
+    }
+    return parsed.toString().replace(TRAILING_SLASH_RE, "");
+  } catch {
+    return "(invalid proxy URL)";
+  }
+}
+
+/** Playwright's proxy settings, with credentials split out of the URL */
+export function playwrightProxy(proxy: ResolvedProxy): {
+  server: string;
+  bypass?: string;
+  username?: string;
+  password?: string;
+} {
+  const parsed = new URL(proxy.url);
+  const username = decodeURIComponent(parsed.username);
+  const password = decodeURIComponent(parsed.password);
+  return {
+    server: `${parsed.protocol}//${parsed.host}`,
+    bypass: proxy.bypass.length ? proxy.bypass.join(",") : undefined,
+    username: username || undefined,
+    password: password || undefined,
+  };
+}
+
+const dispatchers = new Map<string, Dispatcher>();
+
+/**
+ * Extra `fetch` options that route a request through `proxy`. Bun's fetch
+ * takes the proxy URL directly; Node's needs an undici dispatcher, which also
+ * handles SOCKS5 proxies.
+ */
+export async function proxyFetchOptions(
+  proxy: ResolvedProxy
+): Promise<{ proxy?: string; dispatcher?: Dispatcher }> {
+  const isSocks = new URL(proxy.url).protocol === "socks5:";
+  if (process.versions.bun) {
+    if (isSocks) {
+      throw new Error(
+        "SOCKS proxies are not supported for static fetches under Bun; run into-md with Node or use an HTTP proxy"
+      );
+    }
+    return { proxy: proxy.url };
+  }
+
+  let dispatcher = dispatchers.get(proxy.url);
+  if (!dispatcher) {
+    const { ProxyAgent } = await import("undici");
+    dispatcher = new ProxyAgent(proxy.url);
+    dispatchers.set(proxy.url, dispatcher);
+  }
+  return { dispatcher };
+}
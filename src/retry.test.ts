@@ -0,0 +1,82 @@
+import { describe, expect, it } from "bun:test";
+import {
+  backoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  TransientError,
+  withRetries,
+} from "./retry";
+
+describe("isRetryableStatus", () => {
+  it("retries 408, 429 and 5xx only", () => {
+    expect([408, 429, 500, 503, 599].every(isRetryableStatus)).toBe(true);
+    expect([400, 401, 403, 404, 410].some(isRetryableStatus)).toBe(false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delay seconds and HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Mon, 01 Jan 2024 00:00:10 GMT", now)).toBe(10_000);
+  });
+
+  it("clamps past dates to zero and ignores garbage", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    expect(parseRetryAfter("Sun, 31 Dec 2023 00:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles per attempt with jitter between half and full delay", () => {
+    expect(backoffDelay(0, 1000, () => 0)).toBe(500);
+    expect(backoffDelay(0, 1000, () => 1)).toBe(1000);
+    expect(backoffDelay(2, 1000, () => 1)).toBe(4000);
+    expect(backoffDelay(20, 1000, () => 1)).toBe(30_000);
+  });
+});
+
+describe("withRetries", () => {
+  it("retries transient errors until the task succeeds", async () => {
+    let calls = 0;
+    const delays: number[] = [];
+    const result = await withRetries(
+      () => {
+        calls += 1;
+        return calls < 3
+          ? Promise.reject(new TransientError("busy", { retryAfterMs: 1 }))
+          : Promise.resolve("ok");
+      },
+      { retries: 2, baseDelayMs: 1 },
+      (_error, _attempt, delayMs) => delays.push(delayMs)
+    );
+    expect(result).toBe("ok");
+    expect(calls).toBe(3);
+    expect(delays).toEqual([1, 1]);
+  });
+
+  it("fails fast on non-transient errors", async () => {
+    let calls = 0;
+    const task = () => {
+      calls += 1;
+      return Promise.reject(new Error("404"));
+    };
+    await expect(
+      withRetries(task, { retries: 3, baseDelayMs: 1 })
+    ).rejects.toThrow("404");
+    expect(calls).toBe(1);
+  });
+
+  it("rethrows the last transient error once retries run out", async () => {
+    let calls = 0;
+    const task = () => {
+      calls += 1;
+      return Promise.reject(new TransientError(`attempt ${calls}`));
+    };
+    await expect(
+      withRetries(task, { retries: 1, baseDelayMs: 1 })
+    ).rejects.toThrow("attempt 2");
+  });
+});
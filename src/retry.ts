@@ -0,0 +1,92 @@
+const RETRYABLE_STATUSES = new Set([408, 429]);
+const MAX_BACKOFF_MS = 30_000;
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+const DIGITS_RE = /^\d+$/;
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one */
+  retries: number;
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs: number;
+}
+
+/**
+ * A failure worth retrying: a network error, a timeout, or a 408, 429 or 5xx
+ * response. Any other error is thrown straight through by `withRetries`.
+ */
+export class TransientError extends Error {
+  /** Server-requested delay from a `Retry-After` header */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options?: ErrorOptions & { retryAfterMs?: number }
+  ) {
+    super(message, options);
+    this.name = "TransientError";
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status) || (status >= 500 && status <= 599);
+}
+
+/**
+ * Parses a `Retry-After` header (delay in seconds or an HTTP date) into
+ * milliseconds, capped at five minutes.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) {
+    return;
+  }
+  const trimmed = value.trim();
+  const ms = DIGITS_RE.test(trimmed)
+    ? Number(trimmed) * 1000
+    : Date.parse(trimmed) - now;
+  if (Number.isNaN(ms)) {
+    return;
+  }
+  return Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Exponential backoff with jitter: the `attempt`-th retry (0-based) waits
+ * between half and all of `baseDelayMs * 2^attempt`, capped at 30s.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  random = Math.random
+): number {
+  const ceiling = Math.min(baseDelayMs * 2 ** attempt, MAX_BACKOFF_MS);
+  return Math.round(ceiling / 2 + (random() * ceiling) / 2);
+}
+
+/**
+ * Runs `task`, retrying `TransientError`s according to `policy`. A
+ * `Retry-After` delay takes precedence over the computed backoff. When every
+ * attempt fails, the last error is rethrown.
+ */
+export async function withRetries<T>(
+  task: () => Promise<T>,
+  policy: RetryPolicy,
+  onRetry?: (error: TransientError, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await task();
+    } catch (error) {
+      if (!(error instanceof TransientError) || attempt >= policy.retries) {
+        throw error;
+      }
+      const delayMs =
+        error.retryAfterMs ?? backoffDelay(attempt, policy.baseDelayMs);
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
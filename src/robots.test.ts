@@ -0,0 +1,81 @@
+import { describe, expect, it } from "bun:test";
+import {
+  crawlDelayMs,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  waitForHost,
+} from "./robots";
+
+const ROBOTS = `
+# Example
+User-agent: *
+Disallow: /private/
+Allow: /private/public
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: into-md
+User-agent: other-bot
+Disallow: /
+Allow: /docs/
+`;
+
+const rules = parseRobotsTxt(ROBOTS);
+const BROWSER_UA = "Mozilla/5.0 Chrome/119.0";
+
+describe("isAllowedByRobots", () => {
+  it("applies the * group to unmatched user agents", () => {
+    expect(isAllowedByRobots(rules, BROWSER_UA, "https://a.com/")).toBe(true);
+    expect(
+      isAllowedByRobots(rules, BROWSER_UA, "https://a.com/private/x")
+    ).toBe(false);
+  });
+
+  it("lets the longest matching rule win", () => {
+    expect(
+      isAllowedByRobots(rules, BROWSER_UA, "https://a.com/private/public/x")
+    ).toBe(true);
+  });
+
+  it("supports * wildcards and $ anchors", () => {
+    expect(isAllowedByRobots(rules, BROWSER_UA, "https://a.com/a/b.pdf")).toBe(
+      false
+    );
+    expect(
+      isAllowedByRobots(rules, BROWSER_UA, "https://a.com/a/b.pdf?x=1")
+    ).toBe(true);
+  });
+
+  it("uses the group naming the user agent, case-insensitively", () => {
+    const ua = "Into-MD/1.0";
+    expect(isAllowedByRobots(rules, ua, "https://a.com/blog")).toBe(false);
+    expect(isAllowedByRobots(rules, ua, "https://a.com/docs/intro")).toBe(true);
+    expect(isAllowedByRobots(rules, ua, "https://a.com/robots.txt")).toBe(true);
+  });
+
+  it("allows everything for an empty robots.txt", () => {
+    expect(
+      isAllowedByRobots(parseRobotsTxt(""), BROWSER_UA, "https://a.com/x")
+    ).toBe(true);
+  });
+});
+
+describe("crawlDelayMs", () => {
+  it("reads Crawl-delay for the matching group only", () => {
+    expect(crawlDelayMs(rules, BROWSER_UA)).toBe(2000);
+    expect(crawlDelayMs(rules, "into-md")).toBeUndefined();
+  });
+});
+
+describe("waitForHost", () => {
+  it("spaces concurrent requests to the same host", async () => {
+    const waits = await Promise.all([
+      waitForHost("https://spaced.test", 20),
+      waitForHost("https://spaced.test", 20),
+      waitForHost("https://other.test", 20),
+    ]);
+    expect(waits[0]).toBe(0);
+    expect(waits[1]).toBeGreaterThanOrEqual(15);
+    expect(waits[2]).toBe(0);
+  });
+});
@@ -0,0 +1,188 @@
+const COMMENT_RE = /#.*$/;
+const LINE_BREAK_RE = /\r?\n/;
+const PATTERN_SPECIAL_RE = /[.+?^${}()|[\]\\]/g;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySeconds?: number;
+}
+
+/** A parsed robots.txt: user-agent groups in file order */
+export interface RobotsRules {
+  groups: RobotsGroup[];
+}
+
+/** Allows everything; used for missing robots.txt files */
+export const ALLOW_ALL: RobotsRules = { groups: [] };
+
+/** Disallows everything; used when robots.txt cannot be fetched */
+export const DISALLOW_ALL: RobotsRules = {
+  groups: [{ agents: ["*"], rules: [{ allow: false, pattern: "/" }] }],
+};
+
+/** Thrown when robots.txt disallows fetching a URL */
+export class RobotsDisallowedError extends Error {
+  readonly url: string;
+
+  constructor(url: string) {
+    super(`Disallowed by robots.txt: ${url}`);
+    this.name = "RobotsDisallowedError";
+    this.url = url;
+  }
+}
+
+function parseLine(line: string): [string, string] | null {
+  const content = line.replace(COMMENT_RE, "").trim();
+  const colon = content.indexOf(":");
+  if (colon <= 0) {
+    return null;
+  }
+  return [
+    content.slice(0, colon).trim().toLowerCase(),
+    content.slice(colon + 1).trim(),
+  ];
+}
+
+function applyGroupField(group: RobotsGroup, field: string, value: string) {
+  if ((field === "allow" || field === "disallow") && value) {
+    group.rules.push({ allow: field === "allow", pattern: value });
+    return;
+  }
+  if (field === "crawl-delay") {
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds >= 0) {
+      group.crawlDelaySeconds = seconds;
+    }
+  }
+}
+
+/**
+ * Parses robots.txt into user-agent groups. Consecutive `User-agent` lines
+ * share a group; `Allow`, `Disallow` and `Crawl-delay` apply to the current
+ * group, and unknown fields are ignored.
+ */
+export function parseRobotsTxt(text: string): RobotsRules {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | undefined;
+  let collectingAgents = false;
+
+  for (const line of text.split(LINE_BREAK_RE)) {
+    const parsed = parseLine(line);
+    if (!parsed) {
+      continue;
+    }
+    const [field, value] = parsed;
+    if (field === "user-agent") {
+      if (!(current && collectingAgents)) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    collectingAgents = false;
+    applyGroupField(current, field, value);
+  }
+  return { groups };
+}
+
+/**
+ * Picks the groups for `userAgent`: those whose agent token appears in the
+ * user agent, preferring the longest token, else the `*` groups.
+ */
+function groupsFor(rules: RobotsRules, userAgent: string): RobotsGroup[] {
+  const ua = userAgent.toLowerCase();
+  let best = "";
+  for (const group of rules.groups) {
+    for (const agent of group.agents) {
+      if (agent !== "*" && ua.includes(agent) && agent.length > best.length) {
+        best = agent;
+      }
+    }
+  }
+  const token = best || "*";
+  return rules.groups.filter((group) => group.agents.includes(token));
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(PATTERN_SPECIAL_RE, String.raw`\$&`))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Whether `url` may be fetched by `userAgent`. The longest matching rule
+ * wins and `Allow` wins ties; URLs no rule matches are allowed.
+ */
+export function isAllowedByRobots(
+  rules: RobotsRules,
+  userAgent: string,
+  url: string
+): boolean {
+  const { pathname, search } = new URL(url);
+  if (pathname === "/robots.txt") {
+    return true;
+  }
+  const path = `${pathname}${search}`;
+  let match: RobotsRule | undefined;
+  for (const group of groupsFor(rules, userAgent)) {
+    for (const rule of group.rules) {
+      if (!patternToRegExp(rule.pattern).test(path)) {
+        continue;
+      }
+      const longer = !match || rule.pattern.length > match.pattern.length;
+      const tie = match && rule.pattern.length === match.pattern.length;
+      if (longer || (tie && rule.allow)) {
+        match = rule;
+      }
+    }
+  }
+  return match?.allow ?? true;
+}
+
+/** The `Crawl-delay` for `userAgent` in milliseconds, if one is set */
+export function crawlDelayMs(
+  rules: RobotsRules,
+  userAgent: string
+): number | undefined {
+  const delays = groupsFor(rules, userAgent)
+    .map((group) => group.crawlDelaySeconds)
+    .filter((seconds): seconds is number => seconds !== undefined);
+  return delays.length ? Math.max(...delays) * 1000 : undefined;
+}
+
+const nextSlotByHost = new Map<string, number>();
+
+/**
+ * Waits until a request to `origin` may start so that requests to the same
+ * host are at least `delayMs` apart, even when issued concurrently. Resolves
+ * to the time waited in milliseconds.
+ */
+export async function waitForHost(
+  origin: string,
+  delayMs: number
+): Promise<number> {
+  if (delayMs <= 0) {
+    return 0;
+  }
+  const now = Date.now();
+  const start = Math.max(now, nextSlotByHost.get(origin) ?? now);
+  nextSlotByHost.set(origin, start + delayMs);
+  if (start > now) {
+    await new Promise((resolve) => setTimeout(resolve, start - now));
+  }
+  return start - now;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { extractSection, listHeadings } from "./sections";
+
+const DOC = `# Guide
+
+Intro.
+
+## Install
+
+Run the installer.
+
+### From source
+
+\`\`\`sh
+# not a heading
+make
+\`\`\`
+
+## Usage
+
+Call it.
+`;
+
+describe("extractSection", () => {
+  it("returns the section up to the next heading of the same level", () => {
+    const section = extractSection(DOC, "install");
+    expect(section).toStartWith("## Install");
+    expect(section).toContain("### From source");
+    expect(section).toContain("# not a heading");
+    expect(section).not.toContain("## Usage");
+  });
+
+  it("runs to the end of the document for the last section", () => {
+    expect(extractSection(DOC, "Usage")).toBe("## Usage\n\nCall it.");
+  });
+
+  it("falls back to a substring match", () => {
+    expect(extractSection(DOC, "source")).toStartWith("### From source");
+  });
+
+  it("returns undefined when no heading matches", () => {
+    expect(extractSection(DOC, "Missing")).toBeUndefined();
+  });
+});
+
+describe("listHeadings", () => {
+  it("ignores headings inside fenced code", () => {
+    expect(listHeadings(DOC)).toEqual([
+      "Guide",
+      "Install",
+      "From source",
+      "Usage",
+    ]);
+  });
+});
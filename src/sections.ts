@@ -0,0 +1,63 @@
+const HEADING_RE = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const WHITESPACE_RE = /\s+/g;
+
+interface Heading {
+  line: number;
+  level: number;
+  text: string;
+}
+
+function normalizeHeading(text: string): string {
+  return text.replace(WHITESPACE_RE, " ").trim().toLowerCase();
+}
+
+/** ATX headings outside fenced code blocks, in document order */
+function findHeadings(lines: string[]): Heading[] {
+  const headings: Heading[] = [];
+  let inFence = false;
+  for (const [index, line] of lines.entries()) {
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    const match = inFence ? null : HEADING_RE.exec(line);
+    if (match?.[1] && match[2] !== undefined) {
+      headings.push({ level: match[1].length, line: index, text: match[2] });
+    }
+  }
+  return headings;
+}
+
+/**
+ * Returns the section under the first heading matching `heading`, up to the
+ * next heading of the same or a higher level. Matching is case-insensitive
+ * and falls back to a substring match when no heading matches exactly.
+ */
+export function extractSection(
+  markdown: string,
+  heading: string
+): string | undefined {
+  const lines = markdown.split("\n");
+  const headings = findHeadings(lines);
+  const wanted = normalizeHeading(heading);
+  const exact = headings.findIndex((h) => normalizeHeading(h.text) === wanted);
+  const start =
+    exact >= 0
+      ? exact
+      : headings.findIndex((h) => normalizeHeading(h.text).includes(wanted));
+  const match = headings[start];
+  if (!match) {
+    return;
+  }
+
+  const end = headings
+    .slice(start + 1)
+    .find((h) => h.level <= match.level)?.line;
+  return lines.slice(match.line, end).join("\n").trim();
+}
+
+/** Lists heading texts, for reporting which sections are available */
+export function listHeadings(markdown: string): string[] {
+  return findHeadings(markdown.split("\n")).map((h) => h.text);
+}
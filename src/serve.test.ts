@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createServeApp } from "./serve";
+import { createLimiter } from "./utils";
+
+const HTML =
+  '<html><head><title>Saved</title></head><body><article><h1>Saved</h1><p>Some article text that is long enough to keep.</p><a href="/next">Next</a></article></body></html>';
+
+const app = createServeApp({
+  concurrency: 2,
+  resolveOptions: () => ({ noCache: true }),
+  version: "0.0.0-test",
+});
+
+describe("createServeApp", () => {
+  it("converts a posted HTML body to markdown with frontmatter", async () => {
+    const response = await app.request(
+      "/convert?base_url=https://example.com/page",
+      { body: HTML, method: "POST" }
+    );
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/markdown");
+    expect(response.headers.get("X-Into-Md-Strategy")).toBe("local");
+    const body = await response.text();
+    expect(body).toStartWith('---\ntitle: "Saved"');
+    expect(body).toContain("https://example.com/next");
+  });
+
+  it("returns the JSON form with format=json", async () => {
+    const response = await app.request(
+      "/convert?base_url=https://example.com/page&format=json&strip_links=1",
+      { body: HTML, method: "POST" }
+    );
+    const json = (await response.json()) as Record<string, unknown>;
+    expect(json.strategy).toBe("local");
+    expect(json.output).toBeUndefined();
+    expect(json.markdown).not.toContain("](https://example.com/next)");
+  });
+
+  it("rejects missing or invalid parameters with 400", async () => {
+    expect((await app.request("/convert")).status).toBe(400);
+    expect(
+      (await app.request("/convert?url=example.com&js=sometimes")).status
+    ).toBe(400);
+    const response = await app.request("/convert", {
+      body: HTML,
+      method: "POST",
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Missing required query parameter: base_url",
+    });
+  });
+});
+
+describe("error statuses", () => {
+  let server: Server;
+  let origin: string;
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      if (request.url === "/robots.txt") {
+        response.writeHead(200, { "Content-Type": "text/plain" });
+        response.end("User-agent: *\nDisallow: /private\n");
+      } else if (request.url === "/broken.pdf") {
+        response.writeHead(200, { "Content-Type": "application/pdf" });
+        response.end("%PDF-1.7 not really");
+      } else {
+        response.writeHead(500);
+        response.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  const polite = createServeApp({
+    concurrency: 1,
+    resolveOptions: () => ({ noCache: true, respectRobots: true, retries: 0 }),
+    version: "0.0.0-test",
+  });
+
+  const convert = (url: string) =>
+    polite.request(`/convert?url=${encodeURIComponent(url)}&js=static`);
+
+  it("rejects URLs that are not http(s) with 400", async () => {
+    const response = await convert("file:///etc/passwd");
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Unsupported URL scheme for url: file (expected http or https)",
+    });
+  });
+
+  it("answers 403 when robots.txt disallows the page", async () => {
+    const response = await convert(`${origin}/private/page`);
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: `Disallowed by robots.txt: ${origin}/private/page`,
+    });
+  });
+
+  it("answers 422 for content that cannot be converted", async () => {
+    expect((await convert(`${origin}/broken.pdf`)).status).toBe(422);
+  });
+
+  it("answers 502 when the site fails", async () => {
+    expect((await convert(`${origin}/down`)).status).toBe(502);
+  });
+});
+
+describe("POST /convert body limit", () => {
+  const limited = createServeApp({
+    concurrency: 1,
+    maxBodyBytes: 1024,
+    resolveOptions: () => ({ noCache: true }),
+    version: "0.0.0-test",
+  });
+
+  it("accepts bodies up to the limit", async () => {
+    const response = await limited.request(
+      "/convert?base_url=https://example.com/page",
+      { body: HTML, method: "POST" }
+    );
+    expect(response.status).toBe(200);
+  });
+
+  it("rejects larger bodies with 413", async () => {
+    const response = await limited.request(
+      "/convert?base_url=https://example.com/page",
+      { body: HTML.repeat(10), method: "POST" }
+    );
+    expect(response.status).toBe(413);
+    expect(await response.json()).toEqual({
+      error: "Request body exceeds the 1.0KB limit",
+    });
+  });
+
+  it("rejects a streamed body once it passes the limit", async () => {
+    const chunk = new TextEncoder().encode(HTML);
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let index = 0; index < 10; index += 1) {
+          controller.enqueue(chunk);
+        }
+        controller.close();
+      },
+    });
+    const response = await limited.request(
+      "/convert?base_url=https://example.com/page",
+      { body, duplex: "half", method: "POST" } as RequestInit
+    );
+    expect(response.status).toBe(413);
+  });
+});
+
+describe("createLimiter", () => {
+  it("never runs more than the limit at once", async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let peak = 0;
+    const task = async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running -= 1;
+    };
+    await Promise.all(Array.from({ length: 6 }, () => limit(task)));
+    expect(peak).toBe(2);
+  });
+});
@@ -0,0 +1,245 @@
+import { serve } from "@hono/node-server";
+import type { Context } from "hono";
+import { Hono } from "hono";
+import { bodyLimit } from "hono/body-limit";
+import { normalizeUrl } from "./batch";
+import { closeBrowser } from "./browser";
+import { decodeBody } from "./charset";
+import { BodyTooLargeError, MAX_BODY_BYTES } from "./compression";
+import type { RenderMode } from "./fetcher";
+import {
+  htmlToMarkdown,
+  type IntoMarkdownOptions,
+  type IntoMarkdownResult,
+  intoMarkdown,
+} from "./into-markdown";
+import { UnreadablePdfError } from "./pdf";
+import { RobotsDisallowedError } from "./robots";
+import { createLimiter, formatBytes } from "./utils";
+
+/** Resolves the server-wide fetch options (config profile, flags) for a URL */
+export type ServeOptionsResolver = (url: string) => IntoMarkdownOptions;
+
+export interface ServeAppOptions {
+  resolveOptions: ServeOptionsResolver;
+  /** Maximum number of conversions running at once; others wait in line */
+  concurrency: number;
+  version: string;
+  /** Largest `POST /convert` body accepted; defaults to 64 MB */
+  maxBodyBytes?: number;
+}
+
+type ResponseFormat = "markdown" | "json";
+
+const RENDER_MODES = new Set<string>(["auto", "static", "headless"]);
+const TRUE_VALUES = new Set(["1", "true", "yes", "on"]);
+const FALSE_VALUES = new Set(["0", "false", "no", "off"]);
+const URL_SCHEME_RE = /^([a-z][a-z\d+.-]*):\/\//i;
+
+class BadRequestError extends Error {}
+
+/**
+ * Status for a failed request: 400 for bad parameters, 403 when robots.txt
+ * refuses the page, 422 for content that cannot be converted, and 502 for
+ * everything else, i.e. the target site failing.
+ */
+function errorStatus(error: unknown): 400 | 403 | 422 | 502 {
+  if (error instanceof BadRequestError) {
+    return 400;
+  }
+  if (error instanceof RobotsDisallowedError) {
+    return 403;
+  }
+  if (
+    error instanceof UnreadablePdfError ||
+    error instanceof BodyTooLargeError
+  ) {
+    return 422;
+  }
+  return 502;
+}
+
+/** An absolute http(s) URL from a query parameter; `https://` is implied */
+function parseHttpUrl(name: string, value: string): string {
+  const scheme = URL_SCHEME_RE.exec(value)?.[1]?.toLowerCase();
+  if (scheme && scheme !== "http" && scheme !== "https") {
+    throw new BadRequestError(
+      `Unsupported URL scheme for ${name}: ${scheme} (expected http or https)`
+    );
+  }
+  const url = normalizeUrl(value);
+  if (!URL.canParse(url)) {
+    throw new BadRequestError(`Invalid URL for ${name}: ${value}`);
+  }
+  return url;
+}
+
+function parseBoolean(name: string, value: string | undefined) {
+  if (value === undefined) {
+    return;
+  }
+  const normalized = value.toLowerCase();
+  if (normalized === "" || TRUE_VALUES.has(normalized)) {
+    return true;
+  }
+  if (FALSE_VALUES.has(normalized)) {
+    return false;
+  }
+  throw new BadRequestError(`Invalid value for ${name}: ${value}`);
+}
+
+function parseMode(value: string | undefined): RenderMode | undefined {
+  if (value === undefined) {
+    return;
+  }
+  if (!RENDER_MODES.has(value)) {
+    throw new BadRequestError(
+      `Invalid value for js: ${value} (expected auto, static or headless)`
+    );
+  }
+  return value as RenderMode;
+}
+
+function parseFormat(c: Context): ResponseFormat {
+  const format = c.req.query("format");
+  if (format === undefined) {
+    return c.req.header("Accept")?.includes("application/json")
+      ? "json"
+      : "markdown";
+  }
+  if (format !== "markdown" && format !== "json") {
+    throw new BadRequestError(
+      `Invalid value for format: ${format} (expected markdown or json)`
+    );
+  }
+  return format;
+}
+
+/** Applies per-request query parameters on top of the server-wide options */
+function requestOptions(
+  c: Context,
+  base: IntoMarkdownOptions
+): IntoMarkdownOptions {
+  const exclude = c.req.query("exclude");
+  return {
+    ...base,
+    mode: parseMode(c.req.query("js")) ?? base.mode,
+    raw: parseBoolean("raw", c.req.query("raw")) ?? base.raw,
+    stripLinks:
+      parseBoolean("strip_links", c.req.query("strip_links")) ??
+      base.stripLinks,
+    noCache: parseBoolean("no_cache", c.req.query("no_cache")) ?? base.noCache,
+    excludeSelectors: exclude
+      ? exclude
+          .split(",")
+          .map((selector) => selector.trim())
+          .filter(Boolean)
+      : base.excludeSelectors,
+    reuseBrowser: true,
+  };
+}
+
+function respond(
+  c: Context,
+  result: IntoMarkdownResult,
+  format: ResponseFormat
+): Response {
+  c.header("X-Into-Md-Strategy", result.strategy);
+  if (format === "json") {
+    const { output: _output, ...json } = result;
+    return c.json(json);
+  }
+  c.header("Content-Type", "text/markdown; charset=utf-8");
+  return c.body(result.output);
+}
+
+/**
+ * Builds the HTTP app: `GET /convert?url=…` fetches and converts a page,
+ * `POST /convert?base_url=…` converts the HTML request body. Both return
+ * markdown with frontmatter, or JSON with `format=json`.
+ */
+export function createServeApp(options: ServeAppOptions): Hono {
+  const app = new Hono();
+  const limit = createLimiter(Math.max(1, options.concurrency));
+  const maxBodyBytes = options.maxBodyBytes ?? MAX_BODY_BYTES;
+
+  app.onError((error, c) => {
+    const message = error instanceof Error ? error.message : String(error);
+    return c.json({ error: message }, errorStatus(error));
+  });
+
+  app.get("/health", (c) => c.json({ status: "ok", version: options.version }));
+
+  app.get("/convert", async (c) => {
+    const input = c.req.query("url");
+    if (!input) {
+      throw new BadRequestError("Missing required query parameter: url");
+    }
+    const url = parseHttpUrl("url", input);
+    const format = parseFormat(c);
+    const fetchOptions = requestOptions(c, options.resolveOptions(url));
+    const result = await limit(() => intoMarkdown(url, fetchOptions));
+    return respond(c, result, format);
+  });
+
+  // Checked before the body is read, so an oversized upload is never buffered
+  const limitBody = bodyLimit({
+    maxSize: maxBodyBytes,
+    onError: (c) =>
+      c.json(
+        {
+          error: `Request body exceeds the ${formatBytes(maxBodyBytes)} limit`,
+        },
+        413
+      ),
+  });
+
+  app.post("/convert", limitBody, async (c) => {
+    const baseUrlInput = c.req.query("base_url");
+    if (!baseUrlInput) {
+      throw new BadRequestError("Missing required query parameter: base_url");
+    }
+    const baseUrl = parseHttpUrl("base_url", baseUrlInput);
+    const format = parseFormat(c);
+    const html = decodeBody(
+      await c.req.arrayBuffer(),
+      c.req.header("Content-Type")
+    ).text;
+    if (!html.trim()) {
+      throw new BadRequestError("Request body must contain HTML");
+    }
+    const fetchOptions = requestOptions(c, options.resolveOptions(baseUrl));
+    const result = await limit(() =>
+      htmlToMarkdown(html, { ...fetchOptions, baseUrl })
+    );
+    return respond(c, result, format);
+  });
+
+  return app;
+}
+
+/**
+ * Serves the conversion app on `host:port` until interrupted, then closes the
+ * shared browser.
+ */
+export function runServer(
+  options: ServeAppOptions & { port: number; host: string }
+): void {
+  const app = createServeApp(options);
+
+  const server = serve(
+    { fetch: app.fetch, hostname: options.host, port: options.port },
+    (info) => {
+      console.error(
+        `into-md ${options.version} listening on http://${info.address}:${info.port}`
+      );
+    }
+  );
+
+  const shutdown = () => {
+    server.close();
+    closeBrowser().finally(() => process.exit(0));
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
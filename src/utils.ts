@@ -1,5 +1,8 @@
 import type { CheerioAPI } from "cheerio";
 
+const GLOB_SPECIAL_RE = /[.+^${}()|[\]\\]/g;
+const DURATION_RE = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i;
+
 /**
  * Converts a relative URL to an absolute URL using the provided base URL.
  * Returns the original URL if it cannot be parsed.
@@ -26,3 +29,87 @@ export const getBodyHtml = ($: CheerioAPI): string => {
   const body = $("body");
   return body.length ? (body.html() ?? "") : ($.root().html() ?? "");
 };
+
+/**
+ * Converts a URL glob into a regular expression. `**` matches any characters,
+ * `*` matches anything except `/`, and `?` matches a single character.
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+  let source = "";
+  for (let i = 0; i < pattern.length; i += 1) {
+    const char = pattern[i] as string;
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        source += ".*";
+        i += 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += ".";
+    } else {
+      source += char.replace(GLOB_SPECIAL_RE, String.raw`\$&`);
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses a duration such as `30s`, `15m`, `12h`, `7d` or `2w` into
+ * milliseconds. Returns undefined for anything else.
+ */
+export const parseDuration = (value: string): number | undefined => {
+  const match = DURATION_RE.exec(value.trim());
+  const unit = match?.[2] && DURATION_UNITS_MS[match[2].toLowerCase()];
+  if (!(match?.[1] && unit)) {
+    return undefined;
+  }
+  return Number(match[1]) * unit;
+};
+
+/** Formats a byte count as `512B`, `12.3KB` or `4.5MB` */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes}B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)}KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+};
+
+/**
+ * Returns a function that runs tasks with at most `limit` in flight, queueing
+ * the rest in arrival order.
+ */
+export function createLimiter(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) {
+      // The finishing task hands its slot over directly
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active += 1;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active -= 1;
+      }
+    }
+  };
+}
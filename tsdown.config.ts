@@ -1,14 +1,13 @@
 import { defineConfig } from "tsdown";
 
 export default defineConfig({
-  banner: "#!/usr/bin/env node\n",
   clean: true,
   dts: true,
-  entry: ["src/index.ts"],
+  entry: ["src/index.ts", "src/cli.ts"],
   format: ["esm"],
   hash: false,
   outDir: "dist",
   platform: "node",
   sourcemap: true,
-  target: "node18",
+  target: "node20",
 });